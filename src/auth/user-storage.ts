@@ -1,5 +1,6 @@
 import fs from 'fs';
 import path from 'path';
+import logger from '../logger';
 
 export interface User {
   username: string;
@@ -72,7 +73,7 @@ export function addUserIdToUser(username: string, userId: string): boolean {
 
     return true;
   } catch (error) {
-    console.error('Error adding user ID:', error);
+    logger.error('Error adding user ID', { error });
     return false;
   }
 }
@@ -1,6 +1,8 @@
 import chromaClient from "./index";
 import embeddingService from "../fastembed/embedding-service";
 import { Component } from "../userResponse/types";
+import logger from "../logger";
+import { SpanKind, withSpan } from "../tracing";
 
 const getOrCreateCollection = async (collectionName: string) => {
     const collection = await chromaClient.getOrCreateCollection({
@@ -18,7 +20,7 @@ const collectionExists = async (collectionName: string): Promise<boolean> => {
         const collections = await chromaClient.listCollections();
         return collections.some(col => col.name === collectionName);
     } catch (error) {
-        console.error('Error checking if collection exists:', error);
+        logger.error('Error checking if collection exists', { error });
         return false;
     }
 };
@@ -32,7 +34,7 @@ const getCollectionCount = async (collectionName: string): Promise<number> => {
         const count = await collection.count();
         return count;
     } catch (error) {
-        console.error('Error getting collection count:', error);
+        logger.error('Error getting collection count', { error });
         return 0;
     }
 };
@@ -65,7 +67,7 @@ const addComponents = async (collectionName: string, components: Component[]) =>
             return `${baseText}${keywords}`;
         });
 
-        console.log(`Generating embeddings for ${components.length} components...`);
+        logger.info('Generating embeddings for components', { count: components.length });
         const embeddings = await embeddingService.generateEmbeddings(documents);
 
         // Prepare data for ChromaDB
@@ -86,10 +88,10 @@ const addComponents = async (collectionName: string, components: Component[]) =>
             metadatas
         });
 
-        console.log(`✓ Added ${components.length} components to ChromaDB collection: ${collectionName}`);
+        logger.info('Added components to ChromaDB collection', { collection: collectionName, count: components.length });
         return { success: true, count: components.length };
     } catch (error) {
-        console.error('Error adding components to ChromaDB:', error);
+        logger.error('Error adding components to ChromaDB', { error });
         throw error;
     }
 };
@@ -106,16 +108,27 @@ const queryComponents = async (
         });
 
         // Generate embedding for query
-        console.log(`Generating embedding for query: "${queryText}"`);
-        const queryEmbedding = await embeddingService.generateEmbedding(queryText);
+        logger.debug('Generating embedding for query', { queryText });
+        const queryEmbedding = await withSpan('embedding.generate', {}, async span => {
+            const embedding = await embeddingService.generateEmbedding(queryText);
+            span.setAttribute('embedding.dimensions', embedding.length);
+            return embedding;
+        });
 
         // Query the collection
-        const results = await collection.query({
-            queryEmbeddings: [queryEmbedding],
-            nResults
+        const results = await withSpan('vector.query', {
+            kind: SpanKind.CLIENT,
+            attributes: { 'db.system.name': 'chromadb', 'db.collection.name': collectionName, 'vector.n_results': nResults }
+        }, async span => {
+            const response = await collection.query({
+                queryEmbeddings: [queryEmbedding],
+                nResults
+            });
+            span.setAttribute('vector.matches', response.ids?.[0]?.length ?? 0);
+            return response;
         });
 
-        console.log("result of collection query", results);
+        logger.debug('Queried collection', { collection: collectionName, ids: results.ids?.[0], distances: results.distances?.[0] });
 
         // Parse and return components
         const components: Component[] = [];
@@ -126,16 +139,16 @@ const queryComponents = async (
                         const component = JSON.parse(metadata.componentData as string);
                         components.push(component);
                     } catch (e) {
-                        console.error('Error parsing component data:', e);
+                        logger.error('Error parsing component data', { error: e });
                     }
                 }
             }
         }
 
-        console.log(`✓ Found ${components.length} matching components`);
+        logger.info('Found matching components', { count: components.length });
         return components;
     } catch (error) {
-        console.error('Error querying components from ChromaDB:', error);
+        logger.error('Error querying components from ChromaDB', { error });
         throw error;
     }
 };
@@ -143,9 +156,9 @@ const queryComponents = async (
 const deleteCollection = async (collectionName: string) => {
     try {
         await chromaClient.deleteCollection({ name: collectionName });
-        console.log(`✓ Deleted collection: ${collectionName}`);
+        logger.info('Deleted collection', { collection: collectionName });
     } catch (error) {
-        console.error('Error deleting collection:', error);
+        logger.error('Error deleting collection', { error });
         throw error;
     }
 };
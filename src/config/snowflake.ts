@@ -0,0 +1,207 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface SnowflakeProfile {
+	name: string;
+	account: string;
+	username: string;
+	password?: string;
+	privateKey?: string;
+	privateKeyPath?: string;
+	privateKeyPass?: string;
+	role?: string;
+	warehouse?: string;
+	database?: string;
+	schema?: string;
+	/** Roles a request may switch to besides the profile role (ALLOWED_ROLES, comma separated) */
+	allowedRoles?: string[];
+	/** Warehouses a request may switch to besides the profile warehouse (ALLOWED_WAREHOUSES, comma separated) */
+	allowedWarehouses?: string[];
+}
+
+export interface SnowflakeConfig {
+	defaultProfile: string;
+	profiles: Record<string, SnowflakeProfile>;
+}
+
+export class SnowflakeConfigError extends Error {
+	constructor(readonly problems: string[]) {
+		super(`Invalid Snowflake configuration:\n  - ${problems.join('\n  - ')}`);
+		this.name = 'SnowflakeConfigError';
+	}
+}
+
+const DEFAULT_PROFILE = 'default';
+
+// Unquoted Snowflake identifier, or a double-quoted one without embedded quotes
+const IDENTIFIER_PATTERN = /^([A-Za-z_][A-Za-z0-9_$]*|"[^"]+")$/;
+
+const PROFILE_FIELDS: { key: Exclude<keyof SnowflakeProfile, 'name' | 'allowedRoles' | 'allowedWarehouses'>; env: string }[] = [
+	{ key: 'account', env: 'ACCOUNT' },
+	{ key: 'username', env: 'USERNAME' },
+	{ key: 'password', env: 'PASSWORD' },
+	{ key: 'privateKey', env: 'PRIVATE_KEY' },
+	{ key: 'privateKeyPath', env: 'PRIVATE_KEY_PATH' },
+	{ key: 'privateKeyPass', env: 'PRIVATE_KEY_PASSPHRASE' },
+	{ key: 'role', env: 'ROLE' },
+	{ key: 'warehouse', env: 'WAREHOUSE' },
+	{ key: 'database', env: 'DATABASE' },
+	{ key: 'schema', env: 'SCHEMA' },
+];
+
+/**
+ * Check whether a value is a valid Snowflake identifier (warehouse, role, database, schema)
+ * @param value - Identifier to check
+ * @returns true if the value can be used as an identifier
+ */
+export function isValidIdentifier(value: string): boolean {
+	return IDENTIFIER_PATTERN.test(value);
+}
+
+/**
+ * Compare two identifiers the way Snowflake resolves them: unquoted ones case-insensitively, quoted ones exactly
+ */
+export function sameIdentifier(a: string, b: string): boolean {
+	const quoted = a.startsWith('"') || b.startsWith('"');
+	return quoted ? a === b : a.toUpperCase() === b.toUpperCase();
+}
+
+/**
+ * Environment variable prefix for a profile.
+ * The default profile reads SNOWFLAKE_ACCOUNT etc., other profiles read SNOWFLAKE_<PROFILE>_ACCOUNT
+ */
+function envPrefix(profileName: string): string {
+	return profileName === DEFAULT_PROFILE
+		? 'SNOWFLAKE_'
+		: `SNOWFLAKE_${profileName.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+}
+
+function readConfigFile(filePath: string): Record<string, Partial<SnowflakeProfile>> {
+	try {
+		const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+		return content.profiles || {};
+	} catch (error) {
+		throw new SnowflakeConfigError([
+			`Failed to read SNOWFLAKE_CONFIG_FILE "${filePath}": ${error instanceof Error ? error.message : 'Unknown error'}`
+		]);
+	}
+}
+
+/**
+ * Validate a single profile
+ * @param profile - Profile to validate
+ * @returns List of human readable problems (empty if valid)
+ */
+export function validateSnowflakeProfile(profile: SnowflakeProfile): string[] {
+	const problems: string[] = [];
+	const prefix = `profile "${profile.name}" (${envPrefix(profile.name)}*)`;
+
+	if (!profile.account) {
+		problems.push(`${prefix}: account is required`);
+	}
+	if (!profile.username) {
+		problems.push(`${prefix}: username is required`);
+	}
+
+	const hasPassword = !!profile.password;
+	const hasKey = !!profile.privateKey || !!profile.privateKeyPath;
+
+	if (!hasPassword && !hasKey) {
+		problems.push(`${prefix}: either a password or a private key (PRIVATE_KEY or PRIVATE_KEY_PATH) is required`);
+	}
+	if (hasPassword && hasKey) {
+		problems.push(`${prefix}: password and private key authentication are mutually exclusive`);
+	}
+	if (profile.privateKey && profile.privateKeyPath) {
+		problems.push(`${prefix}: set only one of PRIVATE_KEY and PRIVATE_KEY_PATH`);
+	}
+	if (profile.privateKeyPath && !fs.existsSync(profile.privateKeyPath)) {
+		problems.push(`${prefix}: private key file not found at ${profile.privateKeyPath}`);
+	}
+	if (profile.privateKey && !profile.privateKey.includes('PRIVATE KEY')) {
+		problems.push(`${prefix}: PRIVATE_KEY must be a PEM encoded private key`);
+	}
+
+	for (const key of ['role', 'warehouse', 'database', 'schema'] as const) {
+		const value = profile[key];
+		if (value && !isValidIdentifier(value)) {
+			problems.push(`${prefix}: ${key} "${value}" is not a valid Snowflake identifier`);
+		}
+	}
+	for (const key of ['allowedRoles', 'allowedWarehouses'] as const) {
+		const values = profile[key];
+		if (values !== undefined && !Array.isArray(values)) {
+			problems.push(`${prefix}: ${key} must be a list of identifiers`);
+			continue;
+		}
+		for (const value of values || []) {
+			if (typeof value !== 'string' || !isValidIdentifier(value)) {
+				problems.push(`${prefix}: ${key} entry "${value}" is not a valid Snowflake identifier`);
+			}
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * Load Snowflake connection profiles from SNOWFLAKE_CONFIG_FILE (optional) and environment variables.
+ * Environment variables take precedence over the config file.
+ * @returns Validated config, or null if Snowflake is not configured at all
+ * @throws SnowflakeConfigError listing every problem found
+ */
+export function loadSnowflakeConfig(env: NodeJS.ProcessEnv = process.env): SnowflakeConfig | null {
+	const fileProfiles = env.SNOWFLAKE_CONFIG_FILE ? readConfigFile(env.SNOWFLAKE_CONFIG_FILE) : {};
+
+	const profileNames = env.SNOWFLAKE_PROFILES
+		? env.SNOWFLAKE_PROFILES.split(',').map(name => name.trim()).filter(Boolean)
+		: Object.keys(fileProfiles).length > 0
+			? Object.keys(fileProfiles)
+			: env.SNOWFLAKE_ACCOUNT ? [DEFAULT_PROFILE] : [];
+
+	if (profileNames.length === 0) {
+		return null;
+	}
+
+	const profiles: Record<string, SnowflakeProfile> = {};
+	const problems: string[] = [];
+
+	for (const name of profileNames) {
+		const profile: SnowflakeProfile = {
+			...fileProfiles[name],
+			name,
+			account: fileProfiles[name]?.account || '',
+			username: fileProfiles[name]?.username || ''
+		};
+
+		const prefix = envPrefix(name);
+		for (const field of PROFILE_FIELDS) {
+			const value = env[`${prefix}${field.env}`];
+			if (value) {
+				profile[field.key] = field.key === 'privateKey' ? value.replace(/\\n/g, '\n') : value;
+			}
+		}
+		for (const [key, envName] of [['allowedRoles', 'ALLOWED_ROLES'], ['allowedWarehouses', 'ALLOWED_WAREHOUSES']] as const) {
+			const value = env[`${prefix}${envName}`];
+			if (value) {
+				profile[key] = value.split(',').map(item => item.trim()).filter(Boolean);
+			}
+		}
+
+		problems.push(...validateSnowflakeProfile(profile));
+		profiles[name] = profile;
+	}
+
+	const defaultProfile = env.SNOWFLAKE_DEFAULT_PROFILE || profileNames[0];
+	if (!profiles[defaultProfile]) {
+		problems.push(`SNOWFLAKE_DEFAULT_PROFILE "${defaultProfile}" is not one of: ${profileNames.join(', ')}`);
+	}
+
+	if (problems.length > 0) {
+		throw new SnowflakeConfigError(problems);
+	}
+
+	return { defaultProfile, profiles };
+}
@@ -0,0 +1,64 @@
+import dotenv from 'dotenv';
+import { DEFAULT_SQL_POLICY, SqlPolicy } from '../sql/guard';
+
+dotenv.config();
+
+const policyCache = new Map<string, SqlPolicy>();
+
+/**
+ * Environment variable holding the policy for a source, e.g. SQL_POLICY_SNOWFLAKE or SQL_POLICY_SNOWFLAKE_TENANT_B
+ */
+function policyEnvName(sourceId: string): string {
+	return `SQL_POLICY_${sourceId.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Resolve the SQL policy for a data source.
+ * Policies are JSON objects in SQL_POLICY_<SOURCE>, merged over SQL_POLICY_DEFAULT and the built-in
+ * read-only default, e.g. SQL_POLICY_SNOWFLAKE='{"allowedSchemas":["TPCH_SF10"]}'
+ * @param sourceId - Data source id
+ * @returns Effective policy
+ * @throws Error if a policy variable holds invalid JSON or a field of the wrong type
+ */
+export function getSqlPolicy(sourceId: string): SqlPolicy {
+	const cached = policyCache.get(sourceId);
+	if (cached) {
+		return cached;
+	}
+
+	const parse = (name: string): Partial<SqlPolicy> => {
+		const raw = process.env[name];
+		if (!raw) {
+			return {};
+		}
+		let value: any;
+		try {
+			value = JSON.parse(raw);
+		} catch (error) {
+			throw new Error(`${name} must be a JSON object: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+		if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+			throw new Error(`${name} must be a JSON object`);
+		}
+		for (const field of ['readOnly', 'allowDdl'] as const) {
+			if (value[field] !== undefined && typeof value[field] !== 'boolean') {
+				throw new Error(`${name}: ${field} must be a boolean`);
+			}
+		}
+		for (const field of ['allowedTables', 'allowedSchemas'] as const) {
+			if (value[field] !== undefined && (!Array.isArray(value[field]) || value[field].some((entry: any) => typeof entry !== 'string'))) {
+				throw new Error(`${name}: ${field} must be an array of strings`);
+			}
+		}
+		return value;
+	};
+
+	const policy: SqlPolicy = {
+		...DEFAULT_SQL_POLICY,
+		...parse('SQL_POLICY_DEFAULT'),
+		...parse(policyEnvName(sourceId))
+	};
+
+	policyCache.set(sourceId, policy);
+	return policy;
+}
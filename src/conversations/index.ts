@@ -0,0 +1,160 @@
+import dotenv from 'dotenv';
+import crypto from 'crypto';
+import { ConversationError, ConversationThread, ConversationTurn, ThreadSummary } from './types';
+
+dotenv.config();
+
+export * from './types';
+
+/** Thread used when a prompt does not name one */
+export const DEFAULT_THREAD_ID = 'default';
+
+const MAX_TURNS = parseInt(process.env.CONVERSATION_MAX_TURNS || '20', 10);
+const MAX_THREADS = parseInt(process.env.CONVERSATION_MAX_THREADS || '50', 10);
+const CONTEXT_TURNS = parseInt(process.env.CONVERSATION_CONTEXT_TURNS || '5', 10);
+const MAX_USERS = parseInt(process.env.CONVERSATION_MAX_USERS || '1000', 10);
+
+// Threads per user, in memory only: a restart starts every conversation over.
+// Kept in order of each user's last write, least recently active first
+const users = new Map<string, Map<string, ConversationThread>>();
+
+// Threads of a user about to be written, moving the user to the end and dropping the least recently active beyond MAX_USERS
+const threadsOf = (user: string): Map<string, ConversationThread> => {
+	const threads = users.get(user) || new Map<string, ConversationThread>();
+	users.delete(user);
+	users.set(user, threads);
+	for (const oldest of users.keys()) {
+		if (users.size <= MAX_USERS) {
+			break;
+		}
+		users.delete(oldest);
+	}
+	return threads;
+};
+
+// Drop the user's least recently updated threads beyond MAX_THREADS
+const evict = (threads: Map<string, ConversationThread>): void => {
+	if (threads.size <= MAX_THREADS) {
+		return;
+	}
+	const oldest = Array.from(threads.values())
+		.sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+		.slice(0, threads.size - MAX_THREADS);
+	for (const thread of oldest) {
+		threads.delete(thread.id);
+	}
+};
+
+const summarize = (thread: ConversationThread): ThreadSummary => ({
+	id: thread.id,
+	parentId: thread.parentId,
+	turns: thread.turns.length,
+	lastPrompt: thread.turns[thread.turns.length - 1]?.prompt,
+	createdAt: thread.createdAt,
+	updatedAt: thread.updatedAt
+});
+
+const get = (user: string, threadId: string = DEFAULT_THREAD_ID): ConversationThread | undefined => {
+	return users.get(user)?.get(threadId);
+};
+
+/**
+ * Latest turns of a thread, oldest first, as context for the next prompt (at most CONVERSATION_CONTEXT_TURNS)
+ */
+const history = (user: string, threadId: string = DEFAULT_THREAD_ID): ConversationTurn[] => {
+	return get(user, threadId)?.turns.slice(-CONTEXT_TURNS) || [];
+};
+
+/**
+ * Append an answered prompt to a thread, creating the thread on its first turn.
+ * Threads keep their last CONVERSATION_MAX_TURNS turns
+ */
+const record = (user: string, threadId: string, turn: ConversationTurn): void => {
+	const threads = threadsOf(user);
+	let thread = threads.get(threadId);
+	if (!thread) {
+		thread = { id: threadId, turns: [], createdAt: turn.at, updatedAt: turn.at };
+		threads.set(threadId, thread);
+	}
+	thread.turns.push(turn);
+	if (thread.turns.length > MAX_TURNS) {
+		thread.turns.splice(0, thread.turns.length - MAX_TURNS);
+	}
+	thread.updatedAt = turn.at;
+	evict(threads);
+};
+
+/**
+ * Threads of a user, most recently updated first
+ */
+const list = (user: string): ThreadSummary[] => {
+	return Array.from(users.get(user)?.values() || [])
+		.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+		.map(summarize);
+};
+
+/**
+ * Forget one thread, or every thread of the user when threadId is omitted
+ * @returns Number of threads removed
+ */
+const reset = (user: string, threadId?: string): number => {
+	const threads = users.get(user);
+	if (!threads) {
+		return 0;
+	}
+	if (threadId === undefined) {
+		users.delete(user);
+		return threads.size;
+	}
+	return threads.delete(threadId) ? 1 : 0;
+};
+
+/**
+ * Start a new thread from the first turns of an existing one, so a follow-up can take a different direction
+ * without losing the original thread
+ * @param options.newThreadId - Id of the new thread (default: a random UUID)
+ * @param options.turns - Number of leading turns to copy (default: all)
+ * @throws ConversationError if the source thread does not exist, the new id is taken or turns is out of range
+ */
+const branch = (
+	user: string,
+	threadId: string,
+	options: { newThreadId?: string; turns?: number } = {}
+): ThreadSummary => {
+	const source = get(user, threadId);
+	if (!source) {
+		throw new ConversationError('unknown_thread', `Unknown thread "${threadId}"`);
+	}
+	const threads = threadsOf(user);
+	const newThreadId = options.newThreadId || crypto.randomUUID();
+	if (threads.has(newThreadId)) {
+		throw new ConversationError('thread_exists', `Thread "${newThreadId}" already exists`);
+	}
+	const turns = options.turns ?? source.turns.length;
+	if (!Number.isInteger(turns) || turns < 0 || turns > source.turns.length) {
+		throw new ConversationError('invalid_turns', `turns must be between 0 and ${source.turns.length}`);
+	}
+
+	const now = new Date().toISOString();
+	const thread: ConversationThread = {
+		id: newThreadId,
+		parentId: source.id,
+		turns: source.turns.slice(0, turns),
+		createdAt: now,
+		updatedAt: now
+	};
+	threads.set(newThreadId, thread);
+	evict(threads);
+	return summarize(thread);
+};
+
+const CONVERSATIONS = {
+	get,
+	history,
+	record,
+	list,
+	reset,
+	branch
+};
+
+export default CONVERSATIONS;
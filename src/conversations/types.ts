@@ -0,0 +1,46 @@
+import { Component } from '../userResponse/types';
+
+/**
+ * One answered prompt in a thread
+ */
+export interface ConversationTurn {
+	/** Id of the user_prompt_req (or HTTP prompt) that asked it */
+	requestId: string;
+	prompt: string;
+	/** Component returned for the prompt, with its query and params; null when none was */
+	component: Component | null;
+	method: string;
+	reasoning: string;
+	at: string;
+}
+
+export interface ConversationThread {
+	id: string;
+	/** Thread this one was branched from */
+	parentId?: string;
+	turns: ConversationTurn[];
+	createdAt: string;
+	updatedAt: string;
+}
+
+/**
+ * Thread listing entry, without the turns themselves
+ */
+export interface ThreadSummary {
+	id: string;
+	parentId?: string;
+	turns: number;
+	lastPrompt?: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+/**
+ * A thread operation named a thread that does not exist, would overwrite one that does, or asked for turns it does not have
+ */
+export class ConversationError extends Error {
+	constructor(readonly reason: 'unknown_thread' | 'thread_exists' | 'invalid_turns', message: string) {
+		super(message);
+		this.name = 'ConversationError';
+	}
+}
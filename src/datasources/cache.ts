@@ -0,0 +1,177 @@
+import dotenv from 'dotenv';
+import { DataSourceResult, SqlDialect } from './types';
+import { QueryParamValue } from '../sql/params';
+import { tokenize } from '../sql/tokenizer';
+import { getJsonSizeInBytes } from '../userResponse/utils';
+
+dotenv.config();
+
+export type CacheMode = 'default' | 'bypass' | 'refresh';
+
+export interface CacheInfo {
+	hit: boolean;
+	/** Age of the cached entry in milliseconds (hits only) */
+	ageMs?: number;
+	ttlMs: number;
+	/** The result came from an identical query that was already running (misses only) */
+	coalesced?: boolean;
+}
+
+export interface CacheKeyParts {
+	source: string;
+	/** Dialect of the source, so the query is normalized the way the source reads it */
+	dialect?: SqlDialect;
+	query: string;
+	params?: QueryParamValue[];
+	offset?: number;
+	pageSize?: number;
+	warehouse?: string;
+	role?: string;
+}
+
+interface CacheEntry {
+	result: DataSourceResult;
+	storedAt: number;
+	expiresAt: number;
+	size: number;
+}
+
+const DEFAULT_TTL_MS = parseInt(process.env.QUERY_CACHE_TTL_MS || '60000', 10);
+const MAX_ENTRIES = parseInt(process.env.QUERY_CACHE_MAX_ENTRIES || '500', 10);
+const MAX_BYTES = parseInt(process.env.QUERY_CACHE_MAX_BYTES || String(50 * 1024 * 1024), 10);
+
+/**
+ * Normalize SQL for cache keys: comments removed, whitespace collapsed, trailing semicolons dropped.
+ * String literals and identifiers are kept verbatim
+ * @param sql - SQL text
+ * @param dialect - Dialect of the source
+ * @returns Normalized SQL
+ */
+export function normalizeSqlForCache(sql: string, dialect?: SqlDialect): string {
+	let normalized = '';
+	for (const token of tokenize(sql, dialect)) {
+		if (token.type === 'whitespace' || token.type === 'comment') {
+			if (!normalized.endsWith(' ')) {
+				normalized += ' ';
+			}
+		} else {
+			normalized += token.value;
+		}
+	}
+	return normalized.trim().replace(/(\s*;)+$/, '');
+}
+
+/**
+ * TTL for a source: QUERY_CACHE_TTL_<SOURCE> (e.g. QUERY_CACHE_TTL_SNOWFLAKE), else QUERY_CACHE_TTL_MS.
+ * A TTL of 0 disables caching for that source
+ */
+export function getCacheTtl(sourceId: string): number {
+	const envName = `QUERY_CACHE_TTL_${sourceId.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+	const value = process.env[envName];
+	const ttl = value !== undefined ? parseInt(value, 10) : DEFAULT_TTL_MS;
+	return Number.isFinite(ttl) && ttl > 0 ? ttl : 0;
+}
+
+/**
+ * In-memory LRU cache of query results with per-entry TTL, bounded by entry count and total bytes
+ */
+export class QueryCache {
+	private entries = new Map<string, CacheEntry>();
+	private totalBytes = 0;
+	private hits = 0;
+	private misses = 0;
+
+	constructor(private maxEntries: number = MAX_ENTRIES, private maxBytes: number = MAX_BYTES) {}
+
+	static key(parts: CacheKeyParts): string {
+		return JSON.stringify([
+			parts.source,
+			normalizeSqlForCache(parts.query, parts.dialect),
+			parts.params || [],
+			parts.offset ?? null,
+			parts.pageSize ?? null,
+			parts.warehouse || null,
+			parts.role || null
+		]);
+	}
+
+	get(key: string): { result: DataSourceResult; ageMs: number } | null {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			this.misses++;
+			return null;
+		}
+
+		if (entry.expiresAt <= Date.now()) {
+			this.delete(key);
+			this.misses++;
+			return null;
+		}
+
+		// Re-insert to mark as most recently used
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		this.hits++;
+
+		return { result: entry.result, ageMs: Date.now() - entry.storedAt };
+	}
+
+	set(key: string, result: DataSourceResult, ttlMs: number): void {
+		if (ttlMs <= 0) {
+			return;
+		}
+
+		const size = getJsonSizeInBytes(result);
+		if (size > this.maxBytes) {
+			return;
+		}
+
+		this.delete(key);
+		const now = Date.now();
+		this.entries.set(key, { result, storedAt: now, expiresAt: now + ttlMs, size });
+		this.totalBytes += size;
+
+		// Evict least recently used entries (Map iteration order) until within bounds
+		for (const oldestKey of this.entries.keys()) {
+			if (this.entries.size <= this.maxEntries && this.totalBytes <= this.maxBytes) {
+				break;
+			}
+			this.delete(oldestKey);
+		}
+	}
+
+	delete(key: string): void {
+		const entry = this.entries.get(key);
+		if (entry) {
+			this.totalBytes -= entry.size;
+			this.entries.delete(key);
+		}
+	}
+
+	/**
+	 * Drop cached results for one source, or everything when no source is given
+	 * @returns Number of entries removed
+	 */
+	invalidate(sourceId?: string): number {
+		let removed = 0;
+		for (const [key, entry] of this.entries) {
+			if (!sourceId || entry.result.source === sourceId) {
+				this.delete(key);
+				removed++;
+			}
+		}
+		return removed;
+	}
+
+	stats() {
+		return {
+			entries: this.entries.size,
+			bytes: this.totalBytes,
+			hits: this.hits,
+			misses: this.misses
+		};
+	}
+}
+
+const queryCache = new QueryCache();
+export default queryCache;
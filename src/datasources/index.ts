@@ -0,0 +1,36 @@
+import DATASOURCES from './registry';
+import { PostgresDataSource } from './postgres';
+import { SnowflakeDataSource } from './snowflake';
+import { SnowflakeClient } from '../snowflake';
+import { loadSnowflakeConfig } from '../config/snowflake';
+import logger from '../logger';
+
+export * from './types';
+export { PostgresDataSource, SnowflakeDataSource };
+
+/**
+ * Register the built-in Postgres and Snowflake sources.
+ * The default Snowflake profile is registered as "snowflake", other profiles as "snowflake:<profile>".
+ * Additional adapters (MySQL, DuckDB, SQLite, ...) can be added with DATASOURCES.register
+ * @throws SnowflakeConfigError if the Snowflake configuration is present but invalid
+ */
+export function registerDefaultDataSources(): void {
+	if (!DATASOURCES.get('postgres')) {
+		DATASOURCES.register(new PostgresDataSource('postgres'));
+	}
+
+	const snowflakeConfig = loadSnowflakeConfig();
+	if (!snowflakeConfig) {
+		logger.warn('Snowflake is not configured (set SNOWFLAKE_ACCOUNT or SNOWFLAKE_PROFILES); skipping Snowflake data sources');
+		return;
+	}
+
+	for (const profile of Object.values(snowflakeConfig.profiles)) {
+		const id = profile.name === snowflakeConfig.defaultProfile ? 'snowflake' : `snowflake:${profile.name}`;
+		if (!DATASOURCES.get(id)) {
+			DATASOURCES.register(new SnowflakeDataSource(id, new SnowflakeClient(profile)));
+		}
+	}
+}
+
+export default DATASOURCES;
@@ -0,0 +1,81 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export type QueryStopReason = 'timeout' | 'cancelled';
+
+export const DEFAULT_QUERY_TIMEOUT_MS = parseInt(process.env.QUERY_TIMEOUT_MS || '120000', 10);
+export const MAX_QUERY_TIMEOUT_MS = parseInt(process.env.QUERY_MAX_TIMEOUT_MS || '600000', 10);
+
+interface InflightQuery {
+	controller: AbortController;
+	timer: NodeJS.Timeout;
+	startedAt: number;
+}
+
+const inflight = new Map<string, InflightQuery>();
+
+/**
+ * Clamp a requested timeout to (0, MAX_QUERY_TIMEOUT_MS], falling back to the default
+ */
+export function resolveTimeout(timeoutMs?: any): number {
+	const value = parseInt(timeoutMs, 10);
+	if (!Number.isFinite(value) || value <= 0) {
+		return DEFAULT_QUERY_TIMEOUT_MS;
+	}
+	return Math.min(value, MAX_QUERY_TIMEOUT_MS);
+}
+
+/**
+ * Track a running query so it can time out or be cancelled by key.
+ * The returned signal aborts with reason 'timeout' or 'cancelled'; call done() when the query settles
+ * @param key - Unique key for the request (e.g. runtime id + message id)
+ * @param timeoutMs - Time after which the query is aborted
+ */
+const start = (key: string, timeoutMs: number): { signal: AbortSignal; done: () => void } => {
+	// A reused key replaces (and cancels) the previous query
+	cancel(key);
+
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort('timeout' satisfies QueryStopReason), timeoutMs);
+	inflight.set(key, { controller, timer, startedAt: Date.now() });
+
+	return {
+		signal: controller.signal,
+		done: () => {
+			clearTimeout(timer);
+			if (inflight.get(key)?.controller === controller) {
+				inflight.delete(key);
+			}
+		}
+	};
+};
+
+/**
+ * Cancel a running query
+ * @param key - Key the query was started with
+ * @returns true if a running query was found and cancelled
+ */
+const cancel = (key: string): boolean => {
+	const query = inflight.get(key);
+	if (!query) {
+		return false;
+	}
+	clearTimeout(query.timer);
+	inflight.delete(key);
+	query.controller.abort('cancelled' satisfies QueryStopReason);
+	return true;
+};
+
+const list = (): { key: string; runningMs: number }[] => {
+	const now = Date.now();
+	return Array.from(inflight.entries()).map(([key, query]) => ({ key, runningMs: now - query.startedAt }));
+};
+
+const INFLIGHT = {
+	start,
+	cancel,
+	list
+};
+
+export default INFLIGHT;
@@ -0,0 +1,142 @@
+import { ColumnMeta, LogicalType } from './types';
+
+// Postgres type OIDs grouped by logical type
+const PG_TYPES: Record<number, LogicalType> = {
+	16: 'boolean',
+	20: 'number', // int8
+	21: 'number', // int2
+	23: 'number', // int4
+	26: 'number', // oid
+	700: 'number', // float4
+	701: 'number', // float8
+	1700: 'decimal', // numeric
+	790: 'decimal', // money
+	1082: 'date',
+	1114: 'timestamp',
+	1184: 'timestamp',
+	114: 'json',
+	3802: 'json'
+};
+
+/**
+ * Map a Postgres type OID to a logical type
+ * @param oid - Column type OID from the row description
+ * @returns Logical type, 'string' for anything not explicitly mapped
+ */
+export function pgLogicalType(oid: number): LogicalType {
+	return PG_TYPES[oid] || 'string';
+}
+
+/**
+ * Map a Snowflake column type to a logical type
+ * @param type - Column type as reported by snowflake-sdk (e.g. 'fixed', 'real', 'timestamp_ntz')
+ * @param scale - Column scale, used to tell integers from decimals for NUMBER columns
+ * @returns Logical type, 'string' for anything not explicitly mapped
+ */
+export function snowflakeLogicalType(type: string, scale: number = 0): LogicalType {
+	switch (type.toLowerCase()) {
+		case 'fixed':
+			return scale > 0 ? 'decimal' : 'number';
+		case 'real':
+			return 'number';
+		case 'boolean':
+			return 'boolean';
+		case 'date':
+			return 'date';
+		case 'timestamp_ltz':
+		case 'timestamp_ntz':
+		case 'timestamp_tz':
+			return 'timestamp';
+		case 'variant':
+		case 'object':
+		case 'array':
+			return 'json';
+		default:
+			return 'string';
+	}
+}
+
+function toDate(value: any): Date | null {
+	if (value instanceof Date) {
+		return value;
+	}
+	const parsed = new Date(value);
+	return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Serialize a value according to its logical type so every source produces the same wire format:
+ * - number: JS number (64-bit integers outside the safe range stay strings)
+ * - decimal: string, to preserve precision
+ * - date: 'YYYY-MM-DD'
+ * - timestamp: ISO 8601 in UTC
+ * - boolean: true/false
+ * - json: parsed value
+ * - string: string
+ * @param value - Raw driver value
+ * @param type - Logical type of the column
+ * @param scale - Decimal scale, used to format numeric decimals
+ */
+export function normalizeValue(value: any, type: LogicalType, scale?: number): any {
+	if (value === null || value === undefined) {
+		return null;
+	}
+
+	switch (type) {
+		case 'number': {
+			if (typeof value === 'number') {
+				return value;
+			}
+			const num = Number(value);
+			if (Number.isNaN(num)) {
+				return String(value);
+			}
+			return Number.isInteger(num) && !Number.isSafeInteger(num) ? String(value) : num;
+		}
+		case 'decimal':
+			if (typeof value === 'number') {
+				return scale !== undefined ? value.toFixed(scale) : String(value);
+			}
+			return String(value);
+		case 'date': {
+			const date = toDate(value);
+			return date ? Date.prototype.toISOString.call(date).slice(0, 10) : String(value);
+		}
+		case 'timestamp': {
+			const date = toDate(value);
+			return date ? Date.prototype.toISOString.call(date) : String(value);
+		}
+		case 'boolean':
+			return typeof value === 'boolean' ? value : value === 't' || value === 'true' || value === 1;
+		case 'json':
+			if (typeof value === 'string') {
+				try {
+					return JSON.parse(value);
+				} catch {
+					return value;
+				}
+			}
+			return value;
+		default:
+			if (Buffer.isBuffer(value)) {
+				return value.toString('hex');
+			}
+			return typeof value === 'object' ? JSON.stringify(value) : String(value);
+	}
+}
+
+/**
+ * Normalize every row of a result set against its column metadata
+ * @param rows - Driver rows keyed by column name
+ * @param columns - Column metadata (with optional decimal scales keyed by column name)
+ * @returns New row objects containing only the described columns, serialized consistently
+ */
+export function normalizeRows(rows: any[], columns: ColumnMeta[], scales: Record<string, number> = {}): any[] {
+	return rows.map(row => {
+		const normalized: any = {};
+		for (const column of columns) {
+			normalized[column.name] = normalizeValue(row[column.name], column.type, scales[column.name]);
+		}
+		return normalized;
+	});
+}
@@ -0,0 +1,114 @@
+import { DataSource, DataSourceResult, ExecuteOptions } from './types';
+import { QueryParamValue } from '../sql/params';
+
+export const DEFAULT_PAGE_SIZE = parseInt(process.env.QUERY_PAGE_SIZE || '500', 10);
+export const MAX_PAGE_SIZE = parseInt(process.env.QUERY_MAX_PAGE_SIZE || '10000', 10);
+
+/**
+ * Opaque paging state handed to the runtime so it can request the next page
+ */
+export interface QueryCursor {
+	source: string;
+	query: string;
+	offset: number;
+	pageSize: number;
+	/** Positional bind values for query */
+	params?: QueryParamValue[];
+	warehouse?: string;
+	role?: string;
+}
+
+/**
+ * Encode a cursor as a URL-safe token
+ * @param cursor - Paging state
+ * @returns base64url encoded token
+ */
+export function encodeCursor(cursor: QueryCursor): string {
+	return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a cursor token produced by encodeCursor
+ * @param token - base64url encoded token
+ * @returns Decoded paging state
+ * @throws Error if the token is malformed
+ */
+export function decodeCursor(token: string): QueryCursor {
+	let cursor: any;
+	try {
+		cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+	} catch (error) {
+		throw new Error('Invalid cursor');
+	}
+
+	if (!cursor || typeof cursor.source !== 'string' || typeof cursor.query !== 'string'
+		|| !Number.isInteger(cursor.offset) || cursor.offset < 0
+		|| !Number.isInteger(cursor.pageSize) || cursor.pageSize <= 0) {
+		throw new Error('Invalid cursor');
+	}
+
+	return cursor;
+}
+
+/**
+ * Clamp a requested page size to the configured bounds
+ * @param pageSize - Requested page size (may be missing or invalid)
+ * @returns Page size between 1 and MAX_PAGE_SIZE
+ */
+export function normalizePageSize(pageSize: any): number {
+	const size = parseInt(pageSize, 10);
+	if (!Number.isFinite(size) || size <= 0) {
+		return DEFAULT_PAGE_SIZE;
+	}
+	return Math.min(size, MAX_PAGE_SIZE);
+}
+
+/**
+ * Wrap a SELECT query so that it returns a single page.
+ * One extra row is requested so the caller can tell whether more pages exist.
+ * The inner query is placed on its own lines so trailing line comments cannot swallow the wrapper
+ * @param query - User query (trailing semicolons are removed)
+ * @param pageSize - Rows per page
+ * @param offset - Rows to skip
+ * @returns Wrapped query
+ */
+export function buildPageQuery(query: string, pageSize: number, offset: number): string {
+	const inner = query.trim().replace(/;+\s*$/, '');
+	return `SELECT * FROM (\n${inner}\n) AS _page LIMIT ${pageSize + 1} OFFSET ${offset}`;
+}
+
+/**
+ * Execute one page of a query against a data source
+ * @param source - Data source to query
+ * @param cursor - Paging state for the page to fetch
+ * @returns Result envelope with hasMore and nextCursor populated
+ */
+export async function executePage(
+	source: DataSource,
+	cursor: QueryCursor,
+	control: Pick<ExecuteOptions, 'timeoutMs' | 'signal' | 'readOnly'> = {}
+): Promise<DataSourceResult> {
+	const result = await source.execute(buildPageQuery(cursor.query, cursor.pageSize, cursor.offset), {
+		...control,
+		warehouse: cursor.warehouse,
+		role: cursor.role,
+		maxRows: cursor.pageSize + 1,
+		params: cursor.params
+	});
+
+	if (!result.success || !result.data) {
+		return result;
+	}
+
+	const hasMore = result.data.length > cursor.pageSize;
+	const data = hasMore ? result.data.slice(0, cursor.pageSize) : result.data;
+
+	return {
+		...result,
+		data,
+		rowCount: data.length,
+		offset: cursor.offset,
+		hasMore,
+		nextCursor: hasMore ? encodeCursor({ ...cursor, offset: cursor.offset + cursor.pageSize }) : undefined
+	};
+}
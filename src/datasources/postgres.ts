@@ -0,0 +1,124 @@
+import { client } from '../db/db';
+import { ensureQueryLimit } from '../userResponse/utils';
+import { ColumnMeta, DataSource, DataSourceResult, ExecuteOptions, TableInfo } from './types';
+import { failedResult, groupColumnsByTable } from './utils';
+import { normalizeRows, pgLogicalType } from './normalize';
+
+const DEFAULT_LIMIT = 50;
+
+export class PostgresDataSource implements DataSource {
+	readonly dialect = 'postgres' as const;
+
+	// NOT NULL flags per table OID and attribute number, so each table is only looked up once
+	private notNullCache = new Map<number, Map<number, boolean>>();
+
+	constructor(readonly id: string = 'postgres') {}
+
+	async connect(): Promise<void> {
+		// postgres-js connects lazily, so issue a trivial query to surface connection errors early
+		await client`SELECT 1`;
+	}
+
+	async execute(query: string, options: ExecuteOptions = {}): Promise<DataSourceResult> {
+		try {
+			const limitedQuery = ensureQueryLimit(query, options.maxRows || DEFAULT_LIMIT, this.dialect);
+			const rows = await this.run(limitedQuery, options);
+			const columns = await this.describeColumns(rows.columns || []);
+			const data = normalizeRows(Array.from(rows), columns);
+
+			return {
+				success: true,
+				source: this.id,
+				dialect: this.dialect,
+				columns,
+				data,
+				rowCount: data.length
+			};
+		} catch (error) {
+			return failedResult(this, error, options);
+		}
+	}
+
+	/**
+	 * Run a query (in a read-only transaction when asked), cancelling it on the server when the signal aborts
+	 */
+	private async run(query: string, options: ExecuteOptions) {
+		const { signal } = options;
+		if (signal?.aborted) {
+			throw new Error(`Query aborted (${signal.reason})`);
+		}
+
+		const send = async (sql: Pick<typeof client, 'unsafe'>) => {
+			const pending = sql.unsafe(query, (options.params || []) as any[]);
+			const onAbort = () => {
+				pending.cancel();
+			};
+			signal?.addEventListener('abort', onAbort, { once: true });
+
+			try {
+				return await pending;
+			} finally {
+				signal?.removeEventListener('abort', onAbort);
+			}
+		};
+
+		if (!options.readOnly) {
+			return send(client);
+		}
+		// Returned as a one-element array so postgres-js does not unwrap the result rows
+		const [rows] = await client.begin('read only', async tx => [await send(tx)]);
+		return rows;
+	}
+
+	/**
+	 * Build column metadata from the row description.
+	 * Columns that come straight from a table report that table's NOT NULL constraint;
+	 * computed columns are reported as nullable
+	 */
+	private async describeColumns(columns: { name: string; type: number; table: number; number: number }[]): Promise<ColumnMeta[]> {
+		const missingTables = Array.from(new Set(
+			columns.map(col => col.table).filter(table => table && !this.notNullCache.has(table))
+		));
+
+		if (missingTables.length > 0) {
+			const attributes = await client`
+				SELECT attrelid, attnum, attnotnull
+				FROM pg_attribute
+				WHERE attrelid = ANY(${missingTables}::oid[]) AND attnum > 0
+			`;
+			for (const table of missingTables) {
+				this.notNullCache.set(table, new Map());
+			}
+			for (const attr of attributes) {
+				this.notNullCache.get(Number(attr.attrelid))?.set(attr.attnum, attr.attnotnull);
+			}
+		}
+
+		return columns.map(col => ({
+			name: col.name,
+			type: pgLogicalType(col.type),
+			nullable: !(col.table && this.notNullCache.get(col.table)?.get(col.number))
+		}));
+	}
+
+	async introspect(): Promise<TableInfo[]> {
+		const rows = await client`
+			SELECT table_schema, table_name, column_name, data_type, is_nullable
+			FROM information_schema.columns
+			WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+			ORDER BY table_schema, table_name, ordinal_position
+		`;
+
+		return groupColumnsByTable(rows.map(row => ({
+			schema: row.table_schema,
+			table: row.table_name,
+			name: row.column_name,
+			type: row.data_type,
+			nullable: row.is_nullable === 'YES'
+		})));
+	}
+
+	async disconnect(): Promise<void> {
+		await client.end();
+	}
+}
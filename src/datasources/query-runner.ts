@@ -0,0 +1,269 @@
+import DATASOURCES from './registry';
+import { DataSource, DataSourceResult } from './types';
+import { QueryCursor, decodeCursor, executePage, normalizePageSize } from './pagination';
+import { SqlPolicy, checkSql } from '../sql/guard';
+import { QueryParams, QueryParamValue, bindParams } from '../sql/params';
+import { getSqlPolicy } from '../config/sql-policy';
+import { toDryRun } from '../sql/limit';
+import queryCache, { CacheMode, QueryCache, getCacheTtl } from './cache';
+import INFLIGHT, { resolveTimeout } from './inflight';
+import { failedResult } from './utils';
+import crypto from 'crypto';
+import { outcomeOf, recordQuery } from '../metrics';
+import { SpanKind, markSpanFailed, withSpan } from '../tracing';
+
+export interface QueryRequest {
+	/** Data source id (ignored when a cursor is given, the cursor names its source) */
+	source: string;
+	query?: string;
+	/** Positional ([...]) or named ({ name: value } for :name placeholders) bind parameters */
+	params?: QueryParams;
+	/** Cursor from a previous page's nextCursor */
+	cursor?: string;
+	/** Return a single page and a cursor for the next one */
+	paginate?: boolean;
+	pageSize?: number;
+	warehouse?: string;
+	role?: string;
+	/** bypass: skip the cache entirely; refresh: skip reading but store the fresh result */
+	cache?: CacheMode;
+	/** Key under which the running query can be cancelled (see INFLIGHT.cancel) */
+	requestId?: string;
+	/** Overrides QUERY_TIMEOUT_MS, capped at QUERY_MAX_TIMEOUT_MS */
+	timeoutMs?: number;
+	/** Only check that the query compiles: it runs wrapped in a LIMIT 0 query, uncached and unpaginated */
+	dryRun?: boolean;
+}
+
+// Cacheable reads currently running, by cache key, so identical concurrent requests share one execution
+const pendingReads = new Map<string, Promise<DataSourceResult>>();
+
+/**
+ * Resolve the data source, enforce its SQL policy and execute the query (or the requested page).
+ * Identical cacheable reads that arrive while one is running wait for its result instead of running again
+ * (see joinPending).
+ * Failures are reported in the returned envelope rather than thrown
+ * @param request - Query request built from a transport payload
+ * @returns Result envelope, with rejections when the SQL guard refused the query
+ */
+export function runQuery(request: QueryRequest): Promise<DataSourceResult> {
+	// The statement itself stays out of the span: it may carry literals the log redaction would hide
+	return withSpan('db.query', {
+		kind: SpanKind.CLIENT,
+		attributes: { 'db.source': request.source, 'db.paginated': !!request.paginate || !!request.cursor, 'db.dry_run': !!request.dryRun }
+	}, async span => {
+		const start = process.hrtime.bigint();
+		const result = await resolveAndExecute(request);
+		recordQuery(result, Number(process.hrtime.bigint() - start) / 1e9);
+
+		span.setAttributes({
+			'db.source': result.source,
+			'db.system.name': result.dialect,
+			'db.response.returned_rows': result.success ? result.rowCount ?? result.data?.length ?? 0 : undefined,
+			'db.cache.hit': result.cache?.hit,
+			'db.outcome': outcomeOf(result)
+		});
+		if (!result.success) {
+			markSpanFailed(span, result.errors?.[0]);
+		}
+		return result;
+	});
+}
+
+async function resolveAndExecute(request: QueryRequest): Promise<DataSourceResult> {
+	let sourceId = request.source;
+	let query = request.query || '';
+	let params: QueryParams | undefined = request.params;
+	let cursor: QueryCursor | null = null;
+
+	try {
+		if (request.cursor) {
+			cursor = decodeCursor(request.cursor);
+			sourceId = cursor.source;
+			query = cursor.query;
+			params = cursor.params;
+		}
+	} catch (error) {
+		return { success: false, source: sourceId, errors: [error instanceof Error ? error.message : 'Invalid cursor'] };
+	}
+
+	const source = DATASOURCES.get(sourceId);
+	if (!source) {
+		return { success: false, source: sourceId, errors: [`Unknown data source: ${sourceId}`] };
+	}
+
+	// Named parameters are rewritten to the driver's positional placeholders
+	let boundValues: QueryParamValue[];
+	try {
+		const bound = bindParams(query, params, source.dialect);
+		query = bound.sql;
+		boundValues = bound.values;
+	} catch (error) {
+		return {
+			success: false,
+			source: source.id,
+			dialect: source.dialect,
+			errors: [error instanceof Error ? error.message : 'Invalid params']
+		};
+	}
+
+	if (!cursor && request.paginate) {
+		cursor = {
+			source: sourceId,
+			query,
+			offset: 0,
+			pageSize: normalizePageSize(request.pageSize),
+			params: boundValues,
+			warehouse: request.warehouse,
+			role: request.role
+		};
+	}
+
+	// Cursors are re-checked too, since the runtime could hand back a forged one
+	let policy: SqlPolicy;
+	try {
+		policy = getSqlPolicy(source.id);
+	} catch (error) {
+		return {
+			success: false,
+			source: source.id,
+			dialect: source.dialect,
+			errors: [error instanceof Error ? error.message : 'Invalid SQL policy']
+		};
+	}
+	const guard = checkSql(query, source.dialect, policy);
+	if (!guard.allowed) {
+		return {
+			success: false,
+			source: source.id,
+			dialect: source.dialect,
+			errors: guard.rejections.map(rejection => rejection.message),
+			rejections: guard.rejections
+		};
+	}
+
+	if (request.dryRun) {
+		const wrapped = guard.statementType === 'select' ? toDryRun(query, source.dialect) : null;
+		if (!wrapped) {
+			return { success: false, source: source.id, dialect: source.dialect, errors: ['Only queries can be dry-run'] };
+		}
+		return execute(source, wrapped, boundValues, request, null, policy.readOnly);
+	}
+
+	// Only reads are cached; a successful write invalidates everything cached for the source
+	const isRead = guard.statementType === 'select';
+	const ttlMs = getCacheTtl(source.id);
+	const cacheMode: CacheMode = request.cache || 'default';
+	const useCache = isRead && ttlMs > 0 && cacheMode !== 'bypass';
+	const cacheKey = QueryCache.key({
+		source: source.id,
+		dialect: source.dialect,
+		query,
+		params: boundValues,
+		offset: cursor?.offset,
+		pageSize: cursor?.pageSize,
+		warehouse: cursor ? cursor.warehouse : request.warehouse,
+		role: cursor ? cursor.role : request.role
+	});
+
+	if (useCache && cacheMode !== 'refresh') {
+		const cached = queryCache.get(cacheKey);
+		if (cached) {
+			return { ...cached.result, cache: { hit: true, ageMs: cached.ageMs, ttlMs } };
+		}
+	}
+
+	if (useCache) {
+		const pending = pendingReads.get(cacheKey);
+		if (pending) {
+			const joined = await joinPending(source, pending, request);
+			if (joined) {
+				return joined.success ? { ...joined, cache: { hit: false, ttlMs, coalesced: true } } : joined;
+			}
+		}
+	}
+
+	const running = execute(source, query, boundValues, request, cursor, policy.readOnly);
+	if (useCache) {
+		pendingReads.set(cacheKey, running);
+		running.finally(() => {
+			if (pendingReads.get(cacheKey) === running) {
+				pendingReads.delete(cacheKey);
+			}
+		}).catch(() => undefined);
+	}
+	const result = await running;
+
+	if (!result.success) {
+		return result;
+	}
+
+	if (!isRead) {
+		queryCache.invalidate(source.id);
+		return result;
+	}
+
+	if (useCache) {
+		queryCache.set(cacheKey, result, ttlMs);
+		return { ...result, cache: { hit: false, ttlMs } };
+	}
+
+	return result;
+}
+
+/**
+ * Wait for an identical read another request is running. The wait is an in-flight query of its own, so cancelling
+ * this request or reaching its time limit ends the wait (reported as usual) without stopping the shared run
+ * @returns The shared result, this request's own timeout or cancellation, or null when the shared run was stopped
+ * by its requester's timeout or cancellation (which says nothing about this request, so it runs separately)
+ */
+async function joinPending(
+	source: DataSource,
+	pending: Promise<DataSourceResult>,
+	request: QueryRequest
+): Promise<DataSourceResult | null> {
+	const timeoutMs = resolveTimeout(request.timeoutMs);
+	const running = INFLIGHT.start(request.requestId || crypto.randomUUID(), timeoutMs);
+	const stopped = new Promise<DataSourceResult>(resolve => {
+		running.signal.addEventListener('abort', () => resolve(failedResult(source, undefined, { timeoutMs, signal: running.signal })), { once: true });
+	});
+	try {
+		const result = await Promise.race([pending, stopped]);
+		if (running.signal.aborted) {
+			return result;
+		}
+		return result.status ? null : result;
+	} finally {
+		running.done();
+	}
+}
+
+/**
+ * Run the statement (or the cursor's page) as a cancellable in-flight query.
+ * Statements on read-only sources run in a read-only transaction where the source supports one
+ */
+async function execute(
+	source: DataSource,
+	query: string,
+	params: QueryParamValue[],
+	request: QueryRequest,
+	cursor: QueryCursor | null = null,
+	readOnly = false
+): Promise<DataSourceResult> {
+	const timeoutMs = resolveTimeout(request.timeoutMs);
+	const running = INFLIGHT.start(request.requestId || crypto.randomUUID(), timeoutMs);
+	try {
+		return cursor
+			? await executePage(source, cursor, { timeoutMs, signal: running.signal, readOnly })
+			: await source.execute(query, {
+				warehouse: request.warehouse,
+				role: request.role,
+				params,
+				timeoutMs,
+				signal: running.signal,
+				readOnly
+			});
+	} finally {
+		running.done();
+	}
+}
@@ -0,0 +1,49 @@
+import { DataSource } from './types';
+import logger from '../logger';
+
+const sources = new Map<string, DataSource>();
+
+/**
+ * Register a data source under its id
+ * @param source - Adapter to register
+ * @throws Error if a source with the same id is already registered
+ */
+const register = (source: DataSource): void => {
+	if (sources.has(source.id)) {
+		throw new Error(`Data source "${source.id}" is already registered`);
+	}
+	sources.set(source.id, source);
+};
+
+const unregister = (id: string): boolean => {
+	return sources.delete(id);
+};
+
+const get = (id: string): DataSource | undefined => {
+	return sources.get(id);
+};
+
+const list = (): DataSource[] => {
+	return Array.from(sources.values());
+};
+
+// Disconnect every registered source, logging (not throwing) individual failures
+const disconnectAll = async (): Promise<void> => {
+	await Promise.all(list().map(async (source) => {
+		try {
+			await source.disconnect();
+		} catch (error) {
+			logger.error(`Error disconnecting data source "${source.id}"`, { error });
+		}
+	}));
+};
+
+const DATASOURCES = {
+	register,
+	unregister,
+	get,
+	list,
+	disconnectAll
+};
+
+export default DATASOURCES;
@@ -0,0 +1,71 @@
+import { SnowflakeClient } from '../snowflake';
+import { ColumnMeta, DataSource, DataSourceResult, ExecuteOptions, TableInfo } from './types';
+import { failedResult, groupColumnsByTable } from './utils';
+import { normalizeRows, snowflakeLogicalType } from './normalize';
+import { applyRowCap } from '../sql/limit';
+
+const DEFAULT_LIMIT = 50;
+
+export class SnowflakeDataSource implements DataSource {
+	readonly dialect = 'snowflake' as const;
+
+	constructor(readonly id: string, private client: SnowflakeClient) {}
+
+	async connect(): Promise<void> {
+		await this.client.ensureConnection();
+	}
+
+	async execute(query: string, options: ExecuteOptions = {}): Promise<DataSourceResult> {
+		try {
+			const maxRows = options.maxRows || DEFAULT_LIMIT;
+			const { rows, columns: sfColumns } = await this.client.execute_statement(applyRowCap(query, maxRows, this.dialect), maxRows, {
+				warehouse: options.warehouse,
+				role: options.role
+			}, options.params, {
+				timeoutMs: options.timeoutMs,
+				signal: options.signal
+			});
+
+			const columns: ColumnMeta[] = sfColumns.map(col => ({
+				name: col.getName(),
+				type: snowflakeLogicalType(col.getType(), col.getScale()),
+				nullable: col.isNullable()
+			}));
+			const scales = Object.fromEntries(sfColumns.map(col => [col.getName(), col.getScale()]));
+			const data = normalizeRows(rows, columns, scales);
+
+			return {
+				success: true,
+				source: this.id,
+				dialect: this.dialect,
+				columns,
+				data,
+				rowCount: data.length
+			};
+		} catch (error) {
+			return failedResult(this, error, options);
+		}
+	}
+
+	async introspect(): Promise<TableInfo[]> {
+		const rows = await this.client.execute_query(
+			`SELECT TABLE_SCHEMA, TABLE_NAME, COLUMN_NAME, DATA_TYPE, IS_NULLABLE
+			FROM INFORMATION_SCHEMA.COLUMNS
+			WHERE TABLE_SCHEMA = CURRENT_SCHEMA()
+			ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+			Number.MAX_SAFE_INTEGER
+		);
+
+		return groupColumnsByTable(rows.map(row => ({
+			schema: row.TABLE_SCHEMA,
+			table: row.TABLE_NAME,
+			name: row.COLUMN_NAME,
+			type: row.DATA_TYPE,
+			nullable: row.IS_NULLABLE === 'YES'
+		})));
+	}
+
+	async disconnect(): Promise<void> {
+		await this.client.disconnect();
+	}
+}
@@ -0,0 +1,89 @@
+import { SqlRejection } from '../sql/guard';
+import { QueryParamValue } from '../sql/params';
+import { CacheInfo } from './cache';
+import { QueryStopReason } from './inflight';
+
+export type SqlDialect = 'postgres' | 'snowflake' | 'mysql' | 'sqlite' | 'duckdb';
+
+export type LogicalType = 'number' | 'decimal' | 'date' | 'timestamp' | 'boolean' | 'string' | 'json';
+
+/**
+ * Column metadata attached to query results
+ */
+export interface ColumnMeta {
+	name: string;
+	type: LogicalType;
+	nullable: boolean;
+}
+
+export interface ColumnInfo {
+	name: string;
+	type: string;
+	nullable: boolean;
+}
+
+export interface TableInfo {
+	schema: string;
+	name: string;
+	columns: ColumnInfo[];
+}
+
+/**
+ * Per-request execution options. Sources ignore options that do not apply to them
+ */
+export interface ExecuteOptions {
+	/** Snowflake warehouse to run this request on instead of the profile default */
+	warehouse?: string;
+	/** Snowflake role to run this request as instead of the profile default */
+	role?: string;
+	/** Maximum number of rows to return (overrides the source's default cap) */
+	maxRows?: number;
+	/** Positional bind values, already matched to the dialect's placeholders */
+	params?: QueryParamValue[];
+	/** Timeout the signal enforces; sources that support it also set it server-side */
+	timeoutMs?: number;
+	/** Aborting the signal cancels the running statement; its reason ('timeout' | 'cancelled') is reported as status */
+	signal?: AbortSignal;
+	/**
+	 * Run the statement in a read-only transaction, so anything the SQL guard missed still cannot write.
+	 * Sources without read-only transactions (Snowflake) rely on the grants of the session role instead
+	 */
+	readOnly?: boolean;
+}
+
+/**
+ * Result envelope returned by every data source, regardless of the underlying driver
+ */
+export interface DataSourceResult {
+	success: boolean;
+	source: string;
+	/** Missing only when the request failed before a source was resolved */
+	dialect?: SqlDialect;
+	columns?: ColumnMeta[];
+	data?: any[];
+	rowCount?: number;
+	errors?: string[];
+	/** Set when the query was stopped before completing */
+	status?: QueryStopReason;
+	/** Structured reasons when the SQL guard refused the query */
+	rejections?: SqlRejection[];
+	/** Cache metadata, present when the source has caching enabled */
+	cache?: CacheInfo;
+	/** Paging info, present when the request was paginated */
+	offset?: number;
+	hasMore?: boolean;
+	nextCursor?: string;
+}
+
+/**
+ * A queryable backend (Postgres, Snowflake, ...) that can be registered with the agent.
+ * Adapters own their connection lifecycle and translate driver results into DataSourceResult.
+ */
+export interface DataSource {
+	readonly id: string;
+	readonly dialect: SqlDialect;
+	connect(): Promise<void>;
+	execute(query: string, options?: ExecuteOptions): Promise<DataSourceResult>;
+	introspect(): Promise<TableInfo[]>;
+	disconnect(): Promise<void>;
+}
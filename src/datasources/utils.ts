@@ -0,0 +1,51 @@
+import { DataSource, DataSourceResult, ExecuteOptions, TableInfo } from './types';
+import { QueryStopReason } from './inflight';
+
+/**
+ * Group flat information_schema column rows into TableInfo entries
+ * @param columns - Column rows ordered by schema and table
+ * @returns One TableInfo per distinct schema/table pair
+ */
+export function groupColumnsByTable(
+	columns: { schema: string; table: string; name: string; type: string; nullable: boolean }[]
+): TableInfo[] {
+	const tables = new Map<string, TableInfo>();
+
+	for (const column of columns) {
+		const key = `${column.schema}.${column.table}`;
+		let table = tables.get(key);
+		if (!table) {
+			table = { schema: column.schema, name: column.table, columns: [] };
+			tables.set(key, table);
+		}
+		table.columns.push({ name: column.name, type: column.type, nullable: column.nullable });
+	}
+
+	return Array.from(tables.values());
+}
+
+/**
+ * Build the failure envelope for a query, reporting timeouts and cancellations distinctly
+ * @param source - Source the query ran on
+ * @param error - Error raised by the driver
+ * @param options - Options the query ran with
+ */
+export function failedResult(source: DataSource, error: unknown, options: ExecuteOptions = {}): DataSourceResult {
+	if (options.signal?.aborted) {
+		const status = options.signal.reason as QueryStopReason;
+		return {
+			success: false,
+			source: source.id,
+			dialect: source.dialect,
+			status,
+			errors: [status === 'timeout' ? `Query timed out after ${options.timeoutMs}ms` : 'Query was cancelled']
+		};
+	}
+
+	return {
+		success: false,
+		source: source.id,
+		dialect: source.dialect,
+		errors: [error instanceof Error ? error.message : 'Unknown error occurred']
+	};
+}
@@ -11,7 +11,7 @@ if (!connectionString) {
 }
 
 // Create postgres client
-const client = postgres(connectionString);
+export const client = postgres(connectionString);
 
 // Create drizzle instance
 export const db = drizzle(client);
@@ -1,9 +1,11 @@
 import { db } from './db';
-import { asc, desc, and, eq, gt, gte, lt, lte, like, ilike, sql } from 'drizzle-orm';
-import { ensureQueryLimit } from '../userResponse/utils';
+import { asc, desc, and, eq, gt, gte, lt, lte, like, ilike } from 'drizzle-orm';
+import { PostgresDataSource } from '../datasources/postgres';
 
 
 const DEFAULT_LIMIT = 50; // Default limit for raw SQL queries
+const postgresSource = new PostgresDataSource();
+
 export interface QueryParams {
 	limit?: number;
 	offset?: number;
@@ -91,29 +93,23 @@ export async function queryTable(
 	}
 }
 
+/**
+ * Execute raw SQL against Postgres.
+ * Rows are normalized by the Postgres data source (dates as ISO strings, numerics as strings)
+ */
 export async function executeRawSQL(rawSQL: string): Promise<QueryResult> {
-	try {
-		if (!rawSQL || rawSQL.trim().length === 0) {
-			return {
-				success: false,
-				errors: ['SQL query cannot be empty'],
-			};
-		}
-
-		// Ensure query has a LIMIT clause to prevent large result sets
-		const limitedQuery = ensureQueryLimit(rawSQL, DEFAULT_LIMIT);
-
-		// Execute raw SQL query
-		const data = await db.execute(sql.raw(limitedQuery));
-
-		return {
-			success: true,
-			data,
-		};
-	} catch (error) {
+	if (!rawSQL || rawSQL.trim().length === 0) {
 		return {
 			success: false,
-			errors: [error instanceof Error ? error.message : 'Unknown error occurred'],
+			errors: ['SQL query cannot be empty'],
 		};
 	}
+
+	const result = await postgresSource.execute(rawSQL, { maxRows: DEFAULT_LIMIT });
+
+	return {
+		success: result.success,
+		data: result.data,
+		errors: result.errors,
+	};
 }
@@ -1,4 +1,5 @@
 import { EmbeddingModel, FlagEmbedding } from "fastembed";
+import logger from "../logger";
 
 class EmbeddingService {
   private embeddingModel: FlagEmbedding | null = null;
@@ -11,11 +12,11 @@ class EmbeddingService {
 
     if (!this.initPromise) {
       this.initPromise = (async () => {
-        console.log('Initializing FastEmbed model...');
+        logger.info('Initializing FastEmbed model');
         this.embeddingModel = await FlagEmbedding.init({
           model: EmbeddingModel.BGEBaseEN
         });
-        console.log('✓ FastEmbed model initialized');
+        logger.info('FastEmbed model initialized');
       })();
     }
 
@@ -0,0 +1,66 @@
+import HEALTH from './index';
+import { HealthCheck } from './types';
+import DATASOURCES, { DataSource } from '../datasources';
+import chromaClient from '../chromadb';
+import embeddingService from '../fastembed/embedding-service';
+import LLM_PROVIDERS, { LLMProvider } from '../llm';
+
+// LLM providers are only asked for their model list once a minute
+const LLM_CHECK_TTL_MS = 60000;
+
+/**
+ * Round-trip a trivial statement through a data source, so a dropped connection shows up as down
+ */
+export const dataSourceCheck = (source: DataSource): HealthCheck => ({
+	name: `datasource:${source.id}`,
+	critical: true,
+	async run(signal) {
+		const result = await source.execute('SELECT 1', { maxRows: 1, signal });
+		if (!result.success) {
+			throw new Error(result.errors?.[0] || 'Query failed');
+		}
+		return source.dialect;
+	}
+});
+
+const chromaCheck: HealthCheck = {
+	name: 'chromadb',
+	critical: false,
+	async run() {
+		await chromaClient.heartbeat();
+	}
+};
+
+// The first run loads (and, on a fresh host, downloads) the model; later runs return immediately
+const embeddingCheck: HealthCheck = {
+	name: 'embeddings',
+	critical: false,
+	async run() {
+		await embeddingService.init();
+	}
+};
+
+export const llmCheck = (provider: LLMProvider): HealthCheck => ({
+	name: `llm:${provider.id}`,
+	critical: false,
+	ttlMs: LLM_CHECK_TTL_MS,
+	run: signal => provider.check(signal)
+});
+
+/**
+ * Register checks for every registered data source, ChromaDB, the embedding model and every registered LLM provider.
+ * Call after registerDefaultDataSources and registerDefaultLLMProviders so the sources and providers are known
+ */
+export function registerDefaultHealthChecks(): void {
+	const defaults: HealthCheck[] = [
+		...DATASOURCES.list().map(dataSourceCheck),
+		chromaCheck,
+		embeddingCheck,
+		...LLM_PROVIDERS.list().map(llmCheck)
+	];
+
+	for (const check of defaults) {
+		HEALTH.unregister(check.name);
+		HEALTH.register(check);
+	}
+}
@@ -0,0 +1,157 @@
+import dotenv from 'dotenv';
+import { ComponentHealth, HealthCheck, HealthReport, HealthStatus, LivenessReport } from './types';
+import logger from '../logger';
+
+dotenv.config();
+
+export * from './types';
+
+const CHECK_TIMEOUT_MS = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '5000', 10);
+const CACHE_TTL_MS = parseInt(process.env.HEALTH_CACHE_TTL_MS || '10000', 10);
+
+interface CheckState {
+	check: HealthCheck;
+	health: ComponentHealth;
+	expiresAt: number;
+	/** Shared by concurrent probes so a dependency is only checked once at a time */
+	running: Promise<void> | null;
+}
+
+const startedAt = Date.now();
+const checks = new Map<string, CheckState>();
+
+/**
+ * Register a dependency check under its name
+ * @throws Error if a check with the same name is already registered
+ */
+const register = (check: HealthCheck): void => {
+	if (checks.has(check.name)) {
+		throw new Error(`Health check "${check.name}" is already registered`);
+	}
+	checks.set(check.name, {
+		check,
+		health: { name: check.name, status: 'unknown', critical: check.critical },
+		expiresAt: 0,
+		running: null
+	});
+};
+
+const unregister = (name: string): boolean => {
+	return checks.delete(name);
+};
+
+const withTimeout = async (check: HealthCheck): Promise<string | void> => {
+	const controller = new AbortController();
+	let timer: NodeJS.Timeout | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			controller.abort('timeout');
+			reject(new Error(`Check timed out after ${CHECK_TIMEOUT_MS}ms`));
+		}, CHECK_TIMEOUT_MS);
+	});
+
+	try {
+		return await Promise.race([check.run(controller.signal), timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+};
+
+const runCheck = (state: CheckState): Promise<void> => {
+	if (!state.running) {
+		state.running = (async () => {
+			const start = Date.now();
+			try {
+				const detail = await withTimeout(state.check);
+				const now = new Date().toISOString();
+				state.health = {
+					...state.health,
+					status: 'up',
+					detail: detail || undefined,
+					checkedAt: now,
+					lastSuccessAt: now
+				};
+			} catch (error) {
+				const now = new Date().toISOString();
+				const message = error instanceof Error ? error.message : String(error);
+				if (state.health.status !== 'down') {
+					logger.warn(`Health check "${state.check.name}" failed`, { error: message });
+				}
+				state.health = {
+					...state.health,
+					status: 'down',
+					detail: undefined,
+					checkedAt: now,
+					lastError: message,
+					lastErrorAt: now
+				};
+			} finally {
+				state.health.latencyMs = Date.now() - start;
+				state.expiresAt = Date.now() + (state.check.ttlMs ?? CACHE_TTL_MS);
+				state.running = null;
+			}
+		})();
+	}
+	return state.running;
+};
+
+const overallStatus = (components: ComponentHealth[]): HealthStatus => {
+	if (components.some(component => component.critical && component.status !== 'up')) {
+		return 'down';
+	}
+	if (components.some(component => component.status !== 'up')) {
+		return 'degraded';
+	}
+	return 'ok';
+};
+
+/**
+ * Liveness: the process is running and its event loop answers. Never touches dependencies,
+ * so an outage of a database does not get the agent restarted
+ */
+const liveness = (): LivenessReport => ({
+	live: true,
+	uptimeMs: Date.now() - startedAt,
+	pid: process.pid
+});
+
+/**
+ * Run the registered checks (reusing results younger than their TTL) and build a report
+ * @param options.refresh - Ignore cached results
+ * @param options.criticalOnly - Only check components that gate readiness
+ */
+const check = async (options: { refresh?: boolean; criticalOnly?: boolean } = {}): Promise<HealthReport> => {
+	const states = Array.from(checks.values()).filter(state => !options.criticalOnly || state.check.critical);
+	const now = Date.now();
+
+	await Promise.all(states
+		.filter(state => options.refresh || state.expiresAt <= now)
+		.map(runCheck));
+
+	const components = states.map(state => ({ ...state.health }));
+	const status = overallStatus(components);
+
+	return {
+		status,
+		live: true,
+		ready: status !== 'down',
+		uptimeMs: Date.now() - startedAt,
+		checkedAt: new Date().toISOString(),
+		components
+	};
+};
+
+/**
+ * Readiness: every critical component is up. Non-critical components are not checked
+ */
+const readiness = (): Promise<HealthReport> => check({ criticalOnly: true });
+
+const HEALTH = {
+	register,
+	unregister,
+	liveness,
+	readiness,
+	check
+};
+
+export default HEALTH;
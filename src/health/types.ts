@@ -0,0 +1,46 @@
+export type ComponentStatus = 'up' | 'down' | 'unknown';
+
+/** ok: everything up; degraded: a non-critical component is down; down: a critical component is down */
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+/**
+ * A dependency check. run() resolves when the dependency is usable and throws otherwise;
+ * it may resolve with a short detail string (e.g. the model in use)
+ */
+export interface HealthCheck {
+	readonly name: string;
+	/** Critical components gate readiness; others only degrade the overall status */
+	readonly critical: boolean;
+	/** How long a result is reused before the dependency is checked again (defaults to HEALTH_CACHE_TTL_MS) */
+	readonly ttlMs?: number;
+	run(signal: AbortSignal): Promise<string | void>;
+}
+
+export interface ComponentHealth {
+	name: string;
+	status: ComponentStatus;
+	critical: boolean;
+	latencyMs?: number;
+	detail?: string;
+	checkedAt?: string;
+	lastSuccessAt?: string;
+	/** Most recent failure, kept after the component recovers */
+	lastError?: string;
+	lastErrorAt?: string;
+}
+
+export interface LivenessReport {
+	live: true;
+	uptimeMs: number;
+	pid: number;
+}
+
+export interface HealthReport {
+	status: HealthStatus;
+	live: boolean;
+	/** True when every critical component is up */
+	ready: boolean;
+	uptimeMs: number;
+	checkedAt: string;
+	components: ComponentHealth[];
+}
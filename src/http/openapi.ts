@@ -0,0 +1,435 @@
+/**
+ * OpenAPI description of the HTTP API, served at GET /openapi.json
+ */
+
+const errorResponse = {
+	description: 'Failure envelope',
+	content: { 'application/json': { schema: { $ref: '#/components/schemas/Failure' } } }
+};
+
+export const OPENAPI_DOCUMENT = {
+	openapi: '3.0.3',
+	info: {
+		title: 'Data Agent HTTP API',
+		version: '1.0.0',
+		description: 'HTTP access to the operations the data agent offers over WebSocket. '
+			+ 'When HTTP_API_TOKEN is set every endpoint except the /v1/health probes and /openapi.json requires "Authorization: Bearer <token>".'
+	},
+	components: {
+		securitySchemes: {
+			bearer: { type: 'http', scheme: 'bearer' },
+			userToken: {
+				type: 'apiKey',
+				in: 'header',
+				name: 'X-Auth-Token',
+				description: 'Auth token of the user owning the conversation threads, as accepted by /v1/auth/verify'
+			}
+		},
+		schemas: {
+			Failure: {
+				type: 'object',
+				required: ['success', 'errors'],
+				properties: {
+					success: { type: 'boolean', enum: [false] },
+					error: { type: 'string', description: 'Machine-readable reason, e.g. "busy" or "llm_output_invalid"' },
+					errors: { type: 'array', items: { type: 'string' } },
+					step: { type: 'string', description: 'Pipeline step whose model output was invalid (llm_output_invalid only)' },
+					issues: {
+						type: 'array',
+						description: 'Why the model output was rejected (llm_output_invalid only)',
+						items: {
+							type: 'object',
+							properties: { path: { type: 'string' }, message: { type: 'string' } }
+						}
+					},
+					details: {
+						type: 'array',
+						items: {
+							type: 'object',
+							properties: { path: { type: 'string' }, message: { type: 'string' } }
+						}
+					}
+				}
+			},
+			QueryRequest: {
+				type: 'object',
+				properties: {
+					source: { type: 'string', description: 'Data source id', default: 'postgres' },
+					query: { type: 'string', description: 'SQL; required unless cursor is given' },
+					params: {
+						description: 'Positional values, or values for :name placeholders',
+						oneOf: [{ type: 'array', items: {} }, { type: 'object', additionalProperties: true }]
+					},
+					cursor: { type: 'string', description: 'nextCursor of a previous page' },
+					pageSize: { type: 'integer', description: 'Return a single page of this size' },
+					warehouse: { type: 'string' },
+					role: { type: 'string' },
+					cache: { type: 'string', enum: ['default', 'bypass', 'refresh'] },
+					timeoutMs: { type: 'integer' }
+				}
+			},
+			ColumnMeta: {
+				type: 'object',
+				properties: {
+					name: { type: 'string' },
+					type: { type: 'string', enum: ['number', 'decimal', 'date', 'timestamp', 'boolean', 'string', 'json'] },
+					nullable: { type: 'boolean' }
+				}
+			},
+			QueryResult: {
+				type: 'object',
+				required: ['success', 'source'],
+				properties: {
+					success: { type: 'boolean' },
+					source: { type: 'string' },
+					dialect: { type: 'string' },
+					columns: { type: 'array', items: { $ref: '#/components/schemas/ColumnMeta' } },
+					data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+					rowCount: { type: 'integer' },
+					errors: { type: 'array', items: { type: 'string' } },
+					status: { type: 'string', enum: ['timeout', 'cancelled'] },
+					rejections: {
+						type: 'array',
+						items: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }
+					},
+					cache: {
+						type: 'object',
+						properties: { hit: { type: 'boolean' }, ageMs: { type: 'integer' }, ttlMs: { type: 'integer' }, coalesced: { type: 'boolean' } }
+					},
+					offset: { type: 'integer' },
+					hasMore: { type: 'boolean' },
+					nextCursor: { type: 'string' }
+				}
+			},
+			PromptResult: {
+				type: 'object',
+				properties: {
+					component: { type: 'object', nullable: true, additionalProperties: true },
+					reasoning: { type: 'string' },
+					method: { type: 'string' },
+					queryModified: { type: 'boolean' },
+					queryReasoning: { type: 'string' },
+					propsModified: { type: 'boolean' },
+					propsModifications: { type: 'array', items: { type: 'string' } },
+					threadId: { type: 'string', description: 'Conversation thread the prompt was recorded in (only when X-Auth-Token was sent)' }
+				}
+			},
+			ThreadSummary: {
+				type: 'object',
+				properties: {
+					id: { type: 'string' },
+					parentId: { type: 'string', description: 'Thread this one was branched from' },
+					turns: { type: 'integer' },
+					lastPrompt: { type: 'string' },
+					createdAt: { type: 'string', format: 'date-time' },
+					updatedAt: { type: 'string', format: 'date-time' }
+				}
+			},
+			AuthResult: {
+				type: 'object',
+				properties: {
+					success: { type: 'boolean' },
+					message: { type: 'string' },
+					username: { type: 'string' }
+				}
+			},
+			HealthReport: {
+				type: 'object',
+				properties: {
+					status: { type: 'string', enum: ['ok', 'degraded', 'down'] },
+					live: { type: 'boolean' },
+					ready: { type: 'boolean', description: 'Every critical component is up' },
+					uptimeMs: { type: 'integer' },
+					checkedAt: { type: 'string', format: 'date-time' },
+					components: {
+						type: 'array',
+						items: {
+							type: 'object',
+							properties: {
+								name: { type: 'string', example: 'datasource:postgres' },
+								status: { type: 'string', enum: ['up', 'down', 'unknown'] },
+								critical: { type: 'boolean' },
+								latencyMs: { type: 'integer' },
+								detail: { type: 'string' },
+								checkedAt: { type: 'string', format: 'date-time' },
+								lastSuccessAt: { type: 'string', format: 'date-time' },
+								lastError: { type: 'string' },
+								lastErrorAt: { type: 'string', format: 'date-time' }
+							}
+						}
+					}
+				}
+			}
+		}
+	},
+	security: [{ bearer: [] }],
+	paths: {
+		'/v1/query': {
+			post: {
+				summary: 'Run a SQL query against a named data source',
+				description: 'The query is checked against the source\'s SQL policy. Closing the connection cancels the running statement.',
+				requestBody: {
+					required: true,
+					content: { 'application/json': { schema: { $ref: '#/components/schemas/QueryRequest' } } }
+				},
+				responses: {
+					200: { description: 'Query result', content: { 'application/json': { schema: { $ref: '#/components/schemas/QueryResult' } } } },
+					400: { description: 'Invalid request or failed query', content: { 'application/json': { schema: { $ref: '#/components/schemas/QueryResult' } } } },
+					403: { description: 'Rejected by the SQL policy', content: { 'application/json': { schema: { $ref: '#/components/schemas/QueryResult' } } } },
+					404: { description: 'Unknown data source', content: { 'application/json': { schema: { $ref: '#/components/schemas/QueryResult' } } } },
+					503: errorResponse,
+					504: { description: 'Query timed out', content: { 'application/json': { schema: { $ref: '#/components/schemas/QueryResult' } } } }
+				}
+			}
+		},
+		'/v1/prompt': {
+			post: {
+				summary: 'Answer a natural-language prompt with a component',
+				description: 'With an X-Auth-Token header the prompt continues that user\'s conversation thread, so follow-ups refine the previous answer.',
+				requestBody: {
+					required: true,
+					content: {
+						'application/json': {
+							schema: {
+								type: 'object',
+								required: ['prompt'],
+								properties: {
+									prompt: { type: 'string' },
+									threadId: { type: 'string', default: 'default', description: 'Only used with an X-Auth-Token header' }
+								}
+							}
+						}
+					}
+				},
+				responses: {
+					200: { description: 'Matched or generated component', content: { 'application/json': { schema: { $ref: '#/components/schemas/PromptResult' } } } },
+					400: errorResponse,
+					401: { ...errorResponse, description: 'X-Auth-Token was sent but does not verify' },
+					502: { ...errorResponse, description: 'The model kept returning invalid output (error "llm_output_invalid")' },
+					503: errorResponse
+				}
+			}
+		},
+		'/v1/components': {
+			get: {
+				summary: 'List the components known to the agent',
+				responses: {
+					200: {
+						description: 'Components',
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: { components: { type: 'array', items: { type: 'object', additionalProperties: true } } }
+								}
+							}
+						}
+					}
+				}
+			}
+		},
+		'/v1/conversations': {
+			get: {
+				summary: 'List the caller\'s conversation threads, most recently updated first',
+				security: [{ bearer: [], userToken: [] }],
+				responses: {
+					200: {
+						description: 'Threads',
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: { threads: { type: 'array', items: { $ref: '#/components/schemas/ThreadSummary' } } }
+								}
+							}
+						}
+					},
+					401: { ...errorResponse, description: 'X-Auth-Token is missing or does not verify' }
+				}
+			}
+		},
+		'/v1/conversations/reset': {
+			post: {
+				summary: 'Forget one conversation thread, or every thread of the caller when threadId is omitted',
+				security: [{ bearer: [], userToken: [] }],
+				requestBody: {
+					required: true,
+					content: {
+						'application/json': {
+							schema: {
+								type: 'object',
+								properties: { threadId: { type: 'string' } }
+							}
+						}
+					}
+				},
+				responses: {
+					200: {
+						description: 'Threads removed',
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: { success: { type: 'boolean' }, threadId: { type: 'string' }, removed: { type: 'integer' } }
+								}
+							}
+						}
+					},
+					400: errorResponse,
+					401: { ...errorResponse, description: 'X-Auth-Token is missing or does not verify' }
+				}
+			}
+		},
+		'/v1/conversations/branch': {
+			post: {
+				summary: 'Start a new thread from the first turns of an existing one',
+				security: [{ bearer: [], userToken: [] }],
+				requestBody: {
+					required: true,
+					content: {
+						'application/json': {
+							schema: {
+								type: 'object',
+								required: ['threadId'],
+								properties: {
+									threadId: { type: 'string' },
+									newThreadId: { type: 'string', description: 'Defaults to a generated id' },
+									turns: { type: 'integer', description: 'Leading turns to copy (default: all)' }
+								}
+							}
+						}
+					}
+				},
+				responses: {
+					200: {
+						description: 'New thread',
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: { success: { type: 'boolean' }, thread: { $ref: '#/components/schemas/ThreadSummary' } }
+								}
+							}
+						}
+					},
+					400: errorResponse,
+					401: { ...errorResponse, description: 'X-Auth-Token is missing or does not verify' },
+					404: errorResponse,
+					409: errorResponse
+				}
+			}
+		},
+		'/v1/auth/login': {
+			post: {
+				summary: 'Validate credentials and register a user id for the user',
+				requestBody: {
+					required: true,
+					content: {
+						'application/json': {
+							schema: {
+								type: 'object',
+								required: ['username', 'password', 'userId'],
+								properties: {
+									username: { type: 'string' },
+									password: { type: 'string', description: 'Same value as in auth_login_req login_data' },
+									userId: { type: 'string' }
+								}
+							}
+						}
+					}
+				},
+				responses: {
+					200: { description: 'Authenticated', content: { 'application/json': { schema: { $ref: '#/components/schemas/AuthResult' } } } },
+					400: errorResponse,
+					401: { description: 'Invalid credentials', content: { 'application/json': { schema: { $ref: '#/components/schemas/AuthResult' } } } }
+				}
+			}
+		},
+		'/v1/auth/verify': {
+			post: {
+				summary: 'Verify an auth token',
+				requestBody: {
+					required: true,
+					content: {
+						'application/json': {
+							schema: { type: 'object', required: ['auth_token'], properties: { auth_token: { type: 'string' } } }
+						}
+					}
+				},
+				responses: {
+					200: {
+						description: 'Verification result',
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: { valid: { type: 'boolean' }, message: { type: 'string' }, username: { type: 'string' } }
+								}
+							}
+						}
+					},
+					400: errorResponse
+				}
+			}
+		},
+		'/v1/health': {
+			get: {
+				summary: 'Check every dependency and report its status, latency and last error',
+				security: [],
+				parameters: [
+					{ name: 'refresh', in: 'query', schema: { type: 'boolean' }, description: 'Re-run checks instead of reusing recent results' }
+				],
+				responses: {
+					200: { description: 'No critical component is down', content: { 'application/json': { schema: { $ref: '#/components/schemas/HealthReport' } } } },
+					503: { description: 'A critical component is down', content: { 'application/json': { schema: { $ref: '#/components/schemas/HealthReport' } } } }
+				}
+			}
+		},
+		'/v1/health/live': {
+			get: {
+				summary: 'Liveness probe; does not check dependencies',
+				security: [],
+				responses: {
+					200: {
+						description: 'Process is running',
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: { live: { type: 'boolean' }, uptimeMs: { type: 'integer' }, pid: { type: 'integer' } }
+								}
+							}
+						}
+					}
+				}
+			}
+		},
+		'/v1/health/ready': {
+			get: {
+				summary: 'Readiness probe; checks critical components (data sources) only',
+				security: [],
+				responses: {
+					200: { description: 'Ready', content: { 'application/json': { schema: { $ref: '#/components/schemas/HealthReport' } } } },
+					503: { description: 'Not ready', content: { 'application/json': { schema: { $ref: '#/components/schemas/HealthReport' } } } }
+				}
+			}
+		},
+		'/metrics': {
+			get: {
+				summary: 'Prometheus metrics (text exposition format 0.0.4)',
+				description: 'Requires the bearer token like the other endpoints; configure it as the scrape job\'s authorization credentials',
+				responses: {
+					200: { description: 'Metrics', content: { 'text/plain': { schema: { type: 'string' } } } },
+					401: { description: 'Missing or wrong bearer token' }
+				}
+			}
+		},
+		'/openapi.json': {
+			get: {
+				summary: 'This document',
+				security: [],
+				responses: { 200: { description: 'OpenAPI document' } }
+			}
+		}
+	}
+};
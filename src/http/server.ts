@@ -0,0 +1,407 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import DATASOURCES from '../datasources';
+import { DataSourceResult } from '../datasources/types';
+import { runQuery } from '../datasources/query-runner';
+import INFLIGHT from '../datasources/inflight';
+import { get_user_response } from '../userResponse';
+import { authenticateAndStoreUserId, verifyAuthToken } from '../auth/validator';
+import { AgentContext, createAgentContext, envInt } from '../websocket/agent-session';
+import { validateInbound } from '../websocket/validators';
+import { ValidationIssue } from '../websocket/types';
+import HEALTH from '../health';
+import CONVERSATIONS, { ConversationError } from '../conversations';
+import { PROMETHEUS_CONTENT_TYPE, httpDuration, httpRequests, renderMetrics, schedulerRejected } from '../metrics';
+import { OPENAPI_DOCUMENT } from './openapi';
+import logger, { setLogContext, withLogContext } from '../logger';
+import { SpanKind, extractTraceContext, markSpanFailed, withSpan } from '../tracing';
+
+dotenv.config();
+
+const MAX_BODY_BYTES = 1048576;
+// Probes orchestrators call without credentials. /metrics is not one of them: scrapers send the bearer token
+const PUBLIC_PATHS = ['/v1/health', '/v1/health/live', '/v1/health/ready', '/openapi.json'];
+
+export interface HttpApiOptions {
+	host: string;
+	port: number;
+	/** When set, requests (except health probes and the OpenAPI document) need "Authorization: Bearer <token>" */
+	token?: string;
+}
+
+const defaultOptions = (): HttpApiOptions => ({
+	host: process.env.HTTP_HOST || '127.0.0.1',
+	port: envInt('HTTP_PORT', 8788),
+	token: process.env.HTTP_API_TOKEN || undefined
+});
+
+class HttpError extends Error {
+	constructor(readonly status: number, message: string, readonly details: ValidationIssue[] = []) {
+		super(message);
+		this.name = 'HttpError';
+	}
+}
+
+type RouteHandler = (req: IncomingMessage, res: ServerResponse, body: any) => Promise<void> | void;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+	const json = JSON.stringify(body);
+	res.writeHead(status, {
+		'Content-Type': 'application/json; charset=utf-8',
+		'Content-Length': Buffer.byteLength(json)
+	});
+	res.end(json);
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+	const chunks: Buffer[] = [];
+	let size = 0;
+
+	req.on('data', (chunk: Buffer) => {
+		size += chunk.length;
+		if (size > MAX_BODY_BYTES) {
+			reject(new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+			req.destroy();
+			return;
+		}
+		chunks.push(chunk);
+	});
+	req.on('end', () => {
+		const text = Buffer.concat(chunks).toString('utf8');
+		if (!text) {
+			resolve({});
+			return;
+		}
+		try {
+			resolve(JSON.parse(text));
+		} catch {
+			reject(new HttpError(400, 'Request body is not valid JSON'));
+		}
+	});
+	req.on('error', reject);
+});
+
+// Handlers read fields straight off the body, so null, arrays and primitives are refused up front
+const requireObjectBody = (body: any, request: string): void => {
+	if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+		throw new HttpError(400, `Invalid ${request} request`, [{ path: '', message: 'body must be a JSON object' }]);
+	}
+};
+
+/**
+ * Check a request body against the WebSocket message catalog, so both transports accept the same payloads
+ */
+const validateAs = (type: string, body: any): void => {
+	const validation = validateInbound({ id: 'http', type, payload: body });
+	if (!validation.valid) {
+		throw new HttpError(400, `Invalid ${type.replace(/_req$/, '')} request`, validation.issues);
+	}
+};
+
+/**
+ * Owner of the caller's conversation threads: the user whose auth token (as checked by /v1/auth/verify) is sent
+ * in X-Auth-Token. The "http:" prefix keeps these apart from WebSocket runtimes, whose threads are keyed by connection id
+ * @returns undefined when the request has no X-Auth-Token header
+ * @throws HttpError 401 when the token does not verify
+ */
+const conversationUser = (req: IncomingMessage): string | undefined => {
+	const header = req.headers['x-auth-token'];
+	if (typeof header !== 'string' || header.length === 0) {
+		return undefined;
+	}
+	const result = verifyAuthToken(header);
+	if (!result.success || !result.username) {
+		throw new HttpError(401, 'Invalid X-Auth-Token');
+	}
+	return `http:${result.username}`;
+};
+
+const requireConversationUser = (req: IncomingMessage): string => {
+	const user = conversationUser(req);
+	if (!user) {
+		throw new HttpError(401, 'Conversations need an X-Auth-Token header');
+	}
+	return user;
+};
+
+// Map a query envelope to the closest HTTP status
+const queryStatus = (result: DataSourceResult): number => {
+	if (result.success) return 200;
+	if (result.status === 'timeout') return 504;
+	if (result.rejections && result.rejections.length > 0) return 403;
+	if (!result.dialect && !DATASOURCES.get(result.source)) return 404;
+	return 400;
+};
+
+/**
+ * HTTP/JSON API exposing the agent's operations to services that do not hold a WebSocket:
+ * queries, prompts, components, login/verify and health probes. See openapi.ts for the contract.
+ * Prompts and queries go through the same scheduler as WebSocket requests when the context is shared
+ */
+export class HttpApiServer {
+	private server: http.Server | null = null;
+	private options: HttpApiOptions;
+	private routes: Record<string, RouteHandler>;
+
+	constructor(options: Partial<HttpApiOptions> = {}, private context: AgentContext = createAgentContext()) {
+		this.options = { ...defaultOptions(), ...options };
+		this.routes = {
+			'POST /v1/query': (req, res, body) => this.handleQuery(req, res, body),
+			'POST /v1/prompt': (req, res, body) => this.handlePrompt(req, res, body),
+			'GET /v1/components': (req, res) => sendJson(res, 200, { components: this.context.components }),
+			'GET /v1/conversations': (req, res) => this.handleConversationList(req, res),
+			'POST /v1/conversations/reset': (req, res, body) => this.handleConversationReset(req, res, body),
+			'POST /v1/conversations/branch': (req, res, body) => this.handleConversationBranch(req, res, body),
+			'POST /v1/auth/login': (req, res, body) => this.handleLogin(res, body),
+			'POST /v1/auth/verify': (req, res, body) => this.handleVerify(res, body),
+			'GET /v1/health': (req, res) => this.handleHealth(req, res),
+			'GET /v1/health/live': (req, res) => sendJson(res, 200, HEALTH.liveness()),
+			'GET /v1/health/ready': async (req, res) => {
+				const report = await HEALTH.readiness();
+				sendJson(res, report.ready ? 200 : 503, report);
+			},
+			'GET /metrics': (req, res) => {
+				const text = renderMetrics();
+				res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE, 'Content-Length': Buffer.byteLength(text) });
+				res.end(text);
+			},
+			'GET /openapi.json': (req, res) => sendJson(res, 200, OPENAPI_DOCUMENT)
+		};
+	}
+
+	start(): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const server = http.createServer((req, res) => {
+				// Callers can pass X-Request-Id to correlate our log lines with theirs
+				const header = req.headers['x-request-id'];
+				withLogContext({
+					requestId: typeof header === 'string' && header ? header : crypto.randomUUID(),
+					runtimeId: `http:${req.socket.remoteAddress || 'unknown'}`,
+					messageType: `${req.method} ${new URL(req.url || '/', 'http://localhost').pathname}`
+				}, () => this.handleRequest(req, res));
+			});
+			server.once('error', reject);
+			server.listen(this.options.port, this.options.host, () => {
+				server.off('error', reject);
+				logger.info(`HTTP API listening on http://${this.options.host}:${this.port()}`);
+				resolve();
+			});
+			this.server = server;
+		});
+	}
+
+	/**
+	 * Port the server is bound to (differs from options.port when 0 was requested)
+	 */
+	port(): number {
+		const address = this.server?.address();
+		return address && typeof address === 'object' ? address.port : this.options.port;
+	}
+
+	async stop(): Promise<void> {
+		const server = this.server;
+		this.server = null;
+		if (server) {
+			await new Promise<void>(resolve => server.close(() => resolve()));
+		}
+	}
+
+	private isAuthorized(req: IncomingMessage): boolean {
+		if (!this.options.token) {
+			return true;
+		}
+		const header = req.headers.authorization || '';
+		const expected = Buffer.from(`Bearer ${this.options.token}`);
+		const actual = Buffer.from(header);
+		return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+	}
+
+	private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+		const path = new URL(req.url || '/', 'http://localhost').pathname;
+		const key = `${req.method} ${path}`;
+
+		// Unmatched paths share one label so scanners cannot blow up the series count
+		const routeLabel = key in this.routes ? key : 'unmatched';
+		const observe = httpDuration.startTimer({ route: routeLabel });
+		res.on('finish', () => {
+			observe();
+			httpRequests.inc({ route: routeLabel, status: res.statusCode });
+		});
+
+		// Callers sending traceparent/tracestate headers get our spans in their trace
+		await withSpan(routeLabel, {
+			kind: SpanKind.SERVER,
+			parent: extractTraceContext(req.headers),
+			attributes: { 'http.request.method': req.method, 'url.path': path, 'http.route': routeLabel }
+		}, async span => {
+			await this.dispatch(req, res, key, path);
+			span.setAttribute('http.response.status_code', res.statusCode);
+			if (res.statusCode >= 500) {
+				markSpanFailed(span, `HTTP ${res.statusCode}`);
+			}
+		});
+	}
+
+	private async dispatch(req: IncomingMessage, res: ServerResponse, key: string, path: string): Promise<void> {
+		const route = this.routes[key];
+		try {
+			if (!route) {
+				const known = Object.keys(this.routes).some(routeKey => routeKey.endsWith(` ${path}`));
+				throw new HttpError(known ? 405 : 404, known ? `Method ${req.method} not allowed` : `Not found: ${path}`);
+			}
+			if (!PUBLIC_PATHS.includes(path) && !this.isAuthorized(req)) {
+				throw new HttpError(401, 'Unauthorized');
+			}
+
+			const body = req.method === 'POST' ? await readJsonBody(req) : {};
+			await route(req, res, body);
+		} catch (error) {
+			if (res.headersSent) {
+				logger.error(`Error after responding to ${key}`, { error });
+				return;
+			}
+			if (error instanceof HttpError) {
+				sendJson(res, error.status, {
+					success: false,
+					errors: [error.message],
+					details: error.details.length > 0 ? error.details : undefined
+				});
+				return;
+			}
+			logger.error(`Error handling ${key}`, { error });
+			sendJson(res, 500, { success: false, errors: [error instanceof Error ? error.message : 'Unknown error'] });
+		}
+	}
+
+	/**
+	 * Run a task through the shared scheduler, answering 503 when its queue is full.
+	 * A task whose caller disconnected while it waited in the queue is dropped without running
+	 */
+	private schedule(type: string, req: IncomingMessage, res: ServerResponse, task: () => Promise<void>): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const accepted = this.context.scheduler.schedule(type, `http:${req.socket.remoteAddress || 'unknown'}`, () => {
+				if (res.destroyed) {
+					logger.info(`Caller disconnected before its ${type} request started, skipping it`);
+					resolve();
+					return Promise.resolve();
+				}
+				return task().then(resolve, reject);
+			});
+			if (!accepted) {
+				schedulerRejected.inc({ type });
+				reject(new HttpError(503, `Too many pending ${type} requests, try again later`));
+			}
+		});
+	}
+
+	private async handleQuery(req: IncomingMessage, res: ServerResponse, body: any): Promise<void> {
+		validateAs('data_req', body);
+
+		// Closing the connection before the result is written cancels the statement
+		const requestId = `http:${crypto.randomUUID()}`;
+		res.on('close', () => {
+			if (!res.writableFinished) {
+				INFLIGHT.cancel(requestId);
+			}
+		});
+
+		await this.schedule('data_req', req, res, async () => {
+			const result = await runQuery({
+				source: body.source || 'postgres',
+				query: body.query,
+				params: body.params,
+				cursor: body.cursor,
+				paginate: body.pageSize !== undefined,
+				pageSize: body.pageSize,
+				warehouse: body.warehouse,
+				role: body.role,
+				cache: body.cache,
+				requestId,
+				timeoutMs: body.timeoutMs
+			});
+			sendJson(res, queryStatus(result), result);
+		});
+	}
+
+	private async handlePrompt(req: IncomingMessage, res: ServerResponse, body: any): Promise<void> {
+		validateAs('user_prompt_req', body);
+		const user = conversationUser(req);
+
+		await this.schedule('user_prompt_req', req, res, async () => {
+			const response = await get_user_response(
+				{ id: crypto.randomUUID(), payload: { prompt: body.prompt, threadId: body.threadId }, from: { type: 'runtime' } },
+				this.context.components,
+				undefined,
+				user
+			);
+			if (!response.success) {
+				// Invalid model output is an upstream failure, not a bad request
+				sendJson(res, response.failure ? 502 : 400, response.failure || { success: false, errors: [response.reason] });
+				return;
+			}
+			sendJson(res, 200, response.response.payload);
+		});
+	}
+
+	private handleConversationList(req: IncomingMessage, res: ServerResponse): void {
+		sendJson(res, 200, { threads: CONVERSATIONS.list(requireConversationUser(req)) });
+	}
+
+	private handleConversationReset(req: IncomingMessage, res: ServerResponse, body: any): void {
+		const user = requireConversationUser(req);
+		requireObjectBody(body, 'conversation reset');
+		validateAs('conversation_reset_req', body);
+
+		const removed = CONVERSATIONS.reset(user, body.threadId);
+		sendJson(res, 200, { success: true, threadId: body.threadId, removed });
+	}
+
+	private handleConversationBranch(req: IncomingMessage, res: ServerResponse, body: any): void {
+		const user = requireConversationUser(req);
+		validateAs('conversation_branch_req', body);
+
+		try {
+			const thread = CONVERSATIONS.branch(user, body.threadId, { newThreadId: body.newThreadId, turns: body.turns });
+			sendJson(res, 200, { success: true, thread });
+		} catch (error) {
+			if (error instanceof ConversationError) {
+				const status = error.reason === 'unknown_thread' ? 404 : error.reason === 'thread_exists' ? 409 : 400;
+				throw new HttpError(status, error.message);
+			}
+			throw error;
+		}
+	}
+
+	private async handleHealth(req: IncomingMessage, res: ServerResponse): Promise<void> {
+		const refresh = new URL(req.url || '/', 'http://localhost').searchParams.get('refresh') === 'true';
+		const report = await HEALTH.check({ refresh });
+		sendJson(res, report.ready ? 200 : 503, report);
+	}
+
+	private handleLogin(res: ServerResponse, body: any): void {
+		requireObjectBody(body, 'login');
+		const issues: ValidationIssue[] = ['username', 'password', 'userId']
+			.filter(field => typeof body[field] !== 'string' || body[field].length === 0)
+			.map(field => ({ path: field, message: `${field} is required` }));
+		if (issues.length > 0) {
+			throw new HttpError(400, 'Invalid login request', issues);
+		}
+
+		const result = authenticateAndStoreUserId({ username: body.username, password: body.password }, body.userId);
+		if (result.success && result.username) {
+			setLogContext({ user: result.username });
+		}
+		sendJson(res, result.success ? 200 : 401, result);
+	}
+
+	private handleVerify(res: ServerResponse, body: any): void {
+		validateAs('auth_verify_req', body);
+
+		const result = verifyAuthToken(body.auth_token);
+		if (result.success && result.username) {
+			setLogContext({ user: result.username });
+		}
+		sendJson(res, 200, { valid: result.success, message: result.message, username: result.username });
+	}
+}
@@ -1,33 +1,70 @@
 
 import { SASDK } from './main';
 import { WebSocketClient } from './websocket/websocket-client';
+import { AgentWebSocketServer } from './websocket/websocket-server';
+import { createAgentContext } from './websocket/agent-session';
+import { HttpApiServer } from './http/server';
+import DATASOURCES, { registerDefaultDataSources } from './datasources';
+import { registerDefaultLLMProviders } from './llm';
+import { registerDefaultHealthChecks } from './health/checks';
+import { initTracing, shutdownTracing } from './tracing';
 
 import dotenv from 'dotenv';
+import logger from './logger';
 dotenv.config();
 
 async function main() {
 	try {
-		console.log('Starting application...');
+		logger.info('Starting application');
 
-		// Initialize WebSocket client
-		const wsClient = new WebSocketClient();
+		// Export spans when an OTLP endpoint is configured
+		if (initTracing()) {
+			logger.info('Tracing enabled');
+		}
 
-		// Connect to WebSocket server
-		await wsClient.connect();
+		// Register the data sources that queries can be routed to
+		registerDefaultDataSources();
+		registerDefaultLLMProviders();
+		registerDefaultHealthChecks();
 
-		console.log('✓ Application ready and listening for messages');
+		// Components and the request scheduler are shared by every transport
+		const context = createAgentContext();
+
+		// 'server' accepts runtime connections locally, 'client' (default) dials out to the relay
+		let shutdownTransport: () => void | Promise<void>;
+		if (process.env.WEBSOCKET_MODE === 'server') {
+			const wsServer = new AgentWebSocketServer({}, context);
+			await wsServer.start();
+			shutdownTransport = () => wsServer.stop();
+		} else {
+			// Initialize WebSocket client
+			const wsClient = new WebSocketClient(undefined, {}, context);
+
+			// Connect to WebSocket server
+			await wsClient.connect();
+			shutdownTransport = () => wsClient.disconnect();
+		}
+
+		// Optional HTTP API alongside the WebSocket interface
+		const httpServer = process.env.HTTP_PORT ? new HttpApiServer({}, context) : null;
+		await httpServer?.start();
+
+		logger.info('Application ready and listening for messages');
 
 		// Handle graceful shutdown
-		process.on('SIGINT', () => {
-			console.log('\nShutting down gracefully...');
-			wsClient.disconnect();
+		process.on('SIGINT', async () => {
+			logger.info('Shutting down gracefully');
+			await shutdownTransport();
+			await httpServer?.stop();
+			await DATASOURCES.disconnectAll();
+			await shutdownTracing();
 			process.exit(0);
 		});
 
 		SASDK();
 	
 	} catch (error) {
-		console.error('Error starting application:', error);
+		logger.error('Error starting application', { error });
 		process.exit(1);
 	}
 }
@@ -0,0 +1,47 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+import { traceLlmCall } from '../tracing';
+
+export interface AnthropicProviderOptions {
+	apiKey: string;
+	model: string;
+}
+
+export class AnthropicProvider implements LLMProvider {
+	readonly model: string;
+	private client: Anthropic;
+
+	constructor(readonly id: string, options: AnthropicProviderOptions) {
+		this.model = options.model;
+		this.client = new Anthropic({ apiKey: options.apiKey });
+	}
+
+	// The Messages API has no JSON mode; the pipeline prompts ask for JSON and the caller strips code fences
+	async complete(request: LLMRequest): Promise<LLMResponse> {
+		const message = await traceLlmCall(
+			this.id,
+			this.model,
+			() => this.client.messages.create({
+				model: this.model,
+				max_tokens: request.maxTokens,
+				temperature: request.temperature,
+				system: request.system,
+				messages: request.messages
+			}, { signal: request.signal }),
+			response => ({ input: response.usage?.input_tokens, output: response.usage?.output_tokens })
+		);
+
+		const textContent = message.content.find(block => block.type === 'text');
+		return {
+			text: textContent && textContent.type === 'text' ? textContent.text : '',
+			provider: this.id,
+			model: this.model,
+			usage: { input: message.usage?.input_tokens, output: message.usage?.output_tokens }
+		};
+	}
+
+	async check(signal?: AbortSignal): Promise<string> {
+		await this.client.models.list({ limit: 1 }, { signal });
+		return this.model;
+	}
+}
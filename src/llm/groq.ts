@@ -0,0 +1,45 @@
+import Groq from 'groq-sdk';
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+import { traceLlmCall } from '../tracing';
+
+export interface GroqProviderOptions {
+	apiKey: string;
+	model: string;
+}
+
+export class GroqProvider implements LLMProvider {
+	readonly model: string;
+	private client: Groq;
+
+	constructor(readonly id: string, options: GroqProviderOptions) {
+		this.model = options.model;
+		this.client = new Groq({ apiKey: options.apiKey });
+	}
+
+	async complete(request: LLMRequest): Promise<LLMResponse> {
+		const completion = await traceLlmCall(
+			this.id,
+			this.model,
+			() => this.client.chat.completions.create({
+				model: this.model,
+				messages: [{ role: 'system', content: request.system }, ...request.messages],
+				temperature: request.temperature,
+				max_tokens: request.maxTokens,
+				response_format: request.json ? { type: 'json_object' } : undefined
+			}, { signal: request.signal }),
+			response => ({ input: response.usage?.prompt_tokens, output: response.usage?.completion_tokens })
+		);
+
+		return {
+			text: completion.choices[0]?.message?.content || '',
+			provider: this.id,
+			model: this.model,
+			usage: { input: completion.usage?.prompt_tokens, output: completion.usage?.completion_tokens }
+		};
+	}
+
+	async check(signal?: AbortSignal): Promise<string> {
+		await this.client.models.list({ signal });
+		return this.model;
+	}
+}
@@ -0,0 +1,75 @@
+import dotenv from 'dotenv';
+import LLM_PROVIDERS from './registry';
+import { GroqProvider } from './groq';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { MockLLMProvider, RecordingLLMProvider } from './mock';
+import { LLMProvider } from './types';
+
+dotenv.config();
+
+export * from './types';
+export { GroqProvider, AnthropicProvider, OpenAICompatibleProvider };
+export * from './mock';
+export * from './output';
+
+const DEFAULT_GROQ_MODEL = 'openai/gpt-oss-120b';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-5-20250929';
+const DEFAULT_PROVIDER_IDS = ['groq', 'anthropic', 'openai'];
+
+/**
+ * Register the built-in providers that are configured, in default chain order:
+ * "groq" (GROQ_API_KEY, GROQ_MODEL), "anthropic" (ANTHROPIC_API_KEY, ANTHROPIC_MODEL) and
+ * "openai" for an OpenAI-compatible endpoint (LLM_OPENAI_BASE_URL, LLM_OPENAI_MODEL, LLM_OPENAI_API_KEY).
+ * Other providers can be added with LLM_PROVIDERS.register.
+ *
+ * LLM_MOCK_MODE switches to recorded fixtures in LLM_FIXTURES_DIR (default fixtures/llm):
+ * "record" saves every live response, "replay" registers offline mocks under the built-in ids
+ * so chains and preferred providers behave as they did while recording
+ * @throws Error if LLM_OPENAI_BASE_URL is set without LLM_OPENAI_MODEL
+ */
+export function registerDefaultLLMProviders(): void {
+	const mode = process.env.LLM_MOCK_MODE;
+	const fixturesDir = process.env.LLM_FIXTURES_DIR || 'fixtures/llm';
+
+	if (mode === 'replay') {
+		for (const id of DEFAULT_PROVIDER_IDS) {
+			if (!LLM_PROVIDERS.get(id)) {
+				LLM_PROVIDERS.register(new MockLLMProvider(id, fixturesDir));
+			}
+		}
+		return;
+	}
+
+	const register = (provider: LLMProvider): void => {
+		LLM_PROVIDERS.register(mode === 'record' ? new RecordingLLMProvider(provider, fixturesDir) : provider);
+	};
+
+	if (process.env.GROQ_API_KEY && !LLM_PROVIDERS.get('groq')) {
+		register(new GroqProvider('groq', {
+			apiKey: process.env.GROQ_API_KEY,
+			model: process.env.GROQ_MODEL || DEFAULT_GROQ_MODEL
+		}));
+	}
+
+	if (process.env.ANTHROPIC_API_KEY && !LLM_PROVIDERS.get('anthropic')) {
+		register(new AnthropicProvider('anthropic', {
+			apiKey: process.env.ANTHROPIC_API_KEY,
+			model: process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL
+		}));
+	}
+
+	const baseUrl = process.env.LLM_OPENAI_BASE_URL;
+	if (baseUrl && !LLM_PROVIDERS.get('openai')) {
+		if (!process.env.LLM_OPENAI_MODEL) {
+			throw new Error('LLM_OPENAI_MODEL is required when LLM_OPENAI_BASE_URL is set');
+		}
+		register(new OpenAICompatibleProvider('openai', {
+			baseUrl,
+			model: process.env.LLM_OPENAI_MODEL,
+			apiKey: process.env.LLM_OPENAI_API_KEY || undefined
+		}));
+	}
+}
+
+export default LLM_PROVIDERS;
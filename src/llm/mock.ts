@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { LLMProvider, LLMRequest, LLMResponse, LLMUsage } from './types';
+import logger from '../logger';
+
+/**
+ * One recorded exchange, stored as <hash>.json in the fixtures directory
+ */
+export interface LLMFixture {
+	hash: string;
+	/** Provider and model that produced the response when it was recorded */
+	provider: string;
+	model: string;
+	request: Pick<LLMRequest, 'system' | 'messages' | 'json'>;
+	response: { text: string; usage: LLMUsage };
+	recordedAt: string;
+}
+
+/**
+ * Stable key for a request: sha256 of its system prompt, messages and JSON flag.
+ * Sampling settings are left out so tuning temperature or token limits does not invalidate fixtures
+ */
+export function promptHash(request: Pick<LLMRequest, 'system' | 'messages' | 'json'>): string {
+	const canonical = JSON.stringify({
+		system: request.system,
+		messages: request.messages.map(message => ({ role: message.role, content: message.content })),
+		json: !!request.json
+	});
+	return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+const fixturePath = (dir: string, hash: string): string => path.join(dir, `${hash}.json`);
+
+/**
+ * Answers from recorded fixtures without any network access, so the prompt pipeline runs deterministically offline.
+ * A request without a fixture fails like an unreachable provider (the error names the missing hash)
+ */
+export class MockLLMProvider implements LLMProvider {
+	readonly model = 'mock';
+	private fixtures = new Map<string, LLMFixture>();
+
+	/**
+	 * @param dir - Directory of recorded fixtures; read on each miss, so fixtures recorded later are picked up
+	 */
+	constructor(readonly id: string, private dir?: string) {}
+
+	/**
+	 * Answer a request with the given text, e.g. to script a pipeline run in code
+	 */
+	add(request: Pick<LLMRequest, 'system' | 'messages' | 'json'>, text: string, usage: LLMUsage = {}): void {
+		const hash = promptHash(request);
+		this.fixtures.set(hash, {
+			hash,
+			provider: this.id,
+			model: this.model,
+			request: { system: request.system, messages: request.messages, json: request.json },
+			response: { text, usage },
+			recordedAt: new Date().toISOString()
+		});
+	}
+
+	private load(hash: string): LLMFixture | undefined {
+		const cached = this.fixtures.get(hash);
+		if (cached || !this.dir) {
+			return cached;
+		}
+		const file = fixturePath(this.dir, hash);
+		if (!fs.existsSync(file)) {
+			return undefined;
+		}
+		const fixture: LLMFixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+		this.fixtures.set(hash, fixture);
+		return fixture;
+	}
+
+	async complete(request: LLMRequest): Promise<LLMResponse> {
+		const hash = promptHash(request);
+		const fixture = this.load(hash);
+		if (!fixture) {
+			throw new Error(`No recorded LLM response for prompt ${hash}${this.dir ? ` in ${this.dir}` : ''}`);
+		}
+		return {
+			text: fixture.response.text,
+			provider: this.id,
+			model: fixture.model,
+			usage: fixture.response.usage
+		};
+	}
+
+	async check(): Promise<string> {
+		return this.dir ? `replaying from ${this.dir}` : 'replaying in-memory fixtures';
+	}
+}
+
+/**
+ * Passes requests through to a real provider and writes every successful exchange to the fixtures directory
+ * (existing fixtures for the same prompt are overwritten). Keeps the wrapped provider's id, so chains are unchanged
+ */
+export class RecordingLLMProvider implements LLMProvider {
+	readonly id: string;
+	readonly model: string;
+
+	constructor(private inner: LLMProvider, private dir: string) {
+		this.id = inner.id;
+		this.model = inner.model;
+	}
+
+	async complete(request: LLMRequest): Promise<LLMResponse> {
+		const response = await this.inner.complete(request);
+		const hash = promptHash(request);
+		const fixture: LLMFixture = {
+			hash,
+			provider: response.provider,
+			model: response.model,
+			request: { system: request.system, messages: request.messages, json: request.json },
+			response: { text: response.text, usage: response.usage },
+			recordedAt: new Date().toISOString()
+		};
+
+		try {
+			fs.mkdirSync(this.dir, { recursive: true });
+			fs.writeFileSync(fixturePath(this.dir, hash), `${JSON.stringify(fixture, null, 2)}\n`);
+		} catch (error) {
+			// Recording is best effort; the caller still gets the live response
+			logger.warn(`Failed to record LLM fixture ${hash}`, { error });
+		}
+		return response;
+	}
+
+	check(signal?: AbortSignal): Promise<string> {
+		return this.inner.check(signal);
+	}
+}
@@ -0,0 +1,76 @@
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+import { traceLlmCall } from '../tracing';
+
+export interface OpenAICompatibleProviderOptions {
+	/** API root, e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8000/v1 (vLLM) */
+	baseUrl: string;
+	model: string;
+	/** Sent as a bearer token when set; local servers usually need none */
+	apiKey?: string;
+}
+
+interface ChatCompletion {
+	choices?: { message?: { content?: string | null } }[];
+	usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API (Ollama, vLLM, llama.cpp, LM Studio, OpenAI itself)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+	readonly model: string;
+	private baseUrl: string;
+	private apiKey?: string;
+
+	constructor(readonly id: string, options: OpenAICompatibleProviderOptions) {
+		this.model = options.model;
+		this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+		this.apiKey = options.apiKey;
+	}
+
+	private async request<T>(path: string, init: RequestInit): Promise<T> {
+		const response = await fetch(`${this.baseUrl}${path}`, {
+			...init,
+			headers: {
+				'Content-Type': 'application/json',
+				...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+			}
+		});
+		if (!response.ok) {
+			const body = await response.text().catch(() => '');
+			throw new Error(`${this.baseUrl}${path} returned ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`);
+		}
+		return response.json() as Promise<T>;
+	}
+
+	async complete(request: LLMRequest): Promise<LLMResponse> {
+		const completion = await traceLlmCall(
+			this.id,
+			this.model,
+			() => this.request<ChatCompletion>('/chat/completions', {
+				method: 'POST',
+				signal: request.signal,
+				body: JSON.stringify({
+					model: this.model,
+					messages: [{ role: 'system', content: request.system }, ...request.messages],
+					temperature: request.temperature,
+					max_tokens: request.maxTokens,
+					response_format: request.json ? { type: 'json_object' } : undefined
+				})
+			}),
+			response => ({ input: response.usage?.prompt_tokens, output: response.usage?.completion_tokens })
+		);
+
+		return {
+			text: completion.choices?.[0]?.message?.content || '',
+			provider: this.id,
+			model: this.model,
+			usage: { input: completion.usage?.prompt_tokens, output: completion.usage?.completion_tokens }
+		};
+	}
+
+	async check(signal?: AbortSignal): Promise<string> {
+		await this.request('/models', { method: 'GET', signal });
+		return this.model;
+	}
+}
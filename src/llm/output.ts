@@ -0,0 +1,119 @@
+import { LLMOutputIssue, LLMResponse } from './types';
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface OutputFieldRule {
+	kind: FieldKind | FieldKind[];
+	required?: boolean;
+	/** Strings must contain more than whitespace, arrays must have an element */
+	nonEmpty?: boolean;
+	oneOf?: readonly (string | number)[];
+	/** Numbers must be whole */
+	integer?: boolean;
+	min?: number;
+	max?: number;
+	/** Rule for every element of an array */
+	items?: OutputFieldRule;
+	/** Rules for the fields of an object */
+	fields?: Record<string, OutputFieldRule>;
+}
+
+/**
+ * Declared shape of a step's JSON output. Field rules are checked first; check runs once they pass
+ */
+export interface OutputSchema {
+	fields: Record<string, OutputFieldRule>;
+	/** Cross-field checks (e.g. fields required only when canGenerate is true) */
+	check?: (value: any) => LLMOutputIssue[];
+}
+
+const kindOf = (value: unknown): FieldKind | 'undefined' | 'other' => {
+	if (value === null) return 'null';
+	if (value === undefined) return 'undefined';
+	if (Array.isArray(value)) return 'array';
+	const kind = typeof value;
+	if (kind === 'number' && !Number.isFinite(value)) return 'other';
+	return kind === 'string' || kind === 'number' || kind === 'boolean' || kind === 'object' ? kind : 'other';
+};
+
+function checkValue(value: unknown, rule: OutputFieldRule, path: string, issues: LLMOutputIssue[]): void {
+	const kinds = Array.isArray(rule.kind) ? rule.kind : [rule.kind];
+	const kind = kindOf(value);
+
+	// null stands for "absent" unless the rule allows it explicitly
+	if (kind === 'undefined' || (kind === 'null' && !kinds.includes('null'))) {
+		if (rule.required) {
+			issues.push({ path, message: 'is required' });
+		}
+		return;
+	}
+	if (!kinds.includes(kind as FieldKind)) {
+		issues.push({ path, message: `expected ${kinds.join(' or ')}, got ${kind}` });
+		return;
+	}
+	if (rule.nonEmpty && ((typeof value === 'string' && value.trim().length === 0) || (Array.isArray(value) && value.length === 0))) {
+		issues.push({ path, message: 'must not be empty' });
+		return;
+	}
+	if (rule.oneOf && (typeof value === 'string' || typeof value === 'number') && !rule.oneOf.includes(value)) {
+		issues.push({ path, message: `must be one of ${rule.oneOf.join(', ')}` });
+		return;
+	}
+	if (typeof value === 'number') {
+		if (rule.integer && !Number.isInteger(value)) {
+			issues.push({ path, message: 'must be a whole number' });
+		} else if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+			issues.push({ path, message: `must be between ${rule.min ?? '-Infinity'} and ${rule.max ?? 'Infinity'}` });
+		}
+	}
+	if (Array.isArray(value) && rule.items) {
+		value.forEach((item, index) => checkValue(item, rule.items!, `${path}[${index}]`, issues));
+	}
+	if (kind === 'object' && rule.fields) {
+		checkFields(value as Record<string, unknown>, rule.fields, `${path}.`, issues);
+	}
+}
+
+function checkFields(value: Record<string, unknown>, fields: Record<string, OutputFieldRule>, prefix: string, issues: LLMOutputIssue[]): void {
+	for (const [field, rule] of Object.entries(fields)) {
+		checkValue(value[field], rule, `${prefix}${field}`, issues);
+	}
+}
+
+/**
+ * Check a parsed LLM output against its schema
+ * @returns Issues found; empty when the output is valid
+ */
+export function validateOutput(value: unknown, schema: OutputSchema): LLMOutputIssue[] {
+	if (kindOf(value) !== 'object') {
+		return [{ path: '', message: 'expected a JSON object' }];
+	}
+	const issues: LLMOutputIssue[] = [];
+	checkFields(value as Record<string, unknown>, schema.fields, '', issues);
+	if (issues.length === 0 && schema.check) {
+		issues.push(...schema.check(value));
+	}
+	return issues;
+}
+
+/**
+ * Parse a response that should hold one JSON object, tolerating a surrounding markdown code block
+ * @throws SyntaxError if the text is not JSON
+ */
+export function parseJsonResponse(response: LLMResponse): any {
+	let text = response.text.trim();
+	if (text.startsWith('```json')) {
+		text = text.replace(/```json\n?/, '').replace(/\n?```$/, '');
+	} else if (text.startsWith('```')) {
+		text = text.replace(/```\n?/, '').replace(/\n?```$/, '');
+	}
+	return JSON.parse(text);
+}
+
+/**
+ * Follow-up message asking the model to fix its previous answer
+ */
+export function repairMessage(issues: LLMOutputIssue[]): string {
+	const list = issues.map(issue => `- ${issue.path || '(response)'}: ${issue.message}`).join('\n');
+	return `Your previous response did not match the required output format:\n${list}\n\nRespond again with the complete corrected JSON object only.`;
+}
@@ -0,0 +1,155 @@
+import dotenv from 'dotenv';
+import { LLMAttemptFailure, LLMChainError, LLMMessage, LLMOutputError, LLMOutputIssue, LLMProvider, LLMRequest, LLMResponse, LLMStep } from './types';
+import { OutputSchema, parseJsonResponse, repairMessage, validateOutput } from './output';
+import { llmFallbacks, llmRepairs } from '../metrics';
+import logger from '../logger';
+
+dotenv.config();
+
+// Follow-up requests allowed per step when the output does not match its schema (2 unless set to a number >= 0,
+// since a NaN limit would never stop the repair loop)
+const maxRepairs = parseInt(process.env.LLM_MAX_REPAIRS || '', 10);
+const MAX_REPAIRS = Number.isFinite(maxRepairs) && maxRepairs >= 0 ? maxRepairs : 2;
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Register a provider under its id
+ * @param provider - Provider to register
+ * @throws Error if a provider with the same id is already registered
+ */
+const register = (provider: LLMProvider): void => {
+	if (providers.has(provider.id)) {
+		throw new Error(`LLM provider "${provider.id}" is already registered`);
+	}
+	providers.set(provider.id, provider);
+};
+
+const unregister = (id: string): boolean => {
+	return providers.delete(id);
+};
+
+const get = (id: string): LLMProvider | undefined => {
+	return providers.get(id);
+};
+
+const list = (): LLMProvider[] => {
+	return Array.from(providers.values());
+};
+
+const parseIds = (value: string | undefined): string[] | undefined => {
+	const ids = value?.split(',').map(id => id.trim()).filter(Boolean);
+	return ids && ids.length > 0 ? ids : undefined;
+};
+
+/**
+ * Providers to try for a step, in order: LLM_CHAIN_<STEP> (e.g. LLM_CHAIN_CLASSIFY=anthropic,groq),
+ * else LLM_CHAIN, else every registered provider in registration order.
+ * Ids that are not registered (e.g. a provider without an API key) are skipped
+ * @param prefer - Provider to move to the front of the chain
+ */
+const chain = (step: LLMStep, prefer?: string): LLMProvider[] => {
+	const ids = parseIds(process.env[`LLM_CHAIN_${step.toUpperCase()}`])
+		|| parseIds(process.env.LLM_CHAIN)
+		|| Array.from(providers.keys());
+	const ordered = prefer ? [prefer, ...ids.filter(id => id !== prefer)] : ids;
+	return ordered
+		.map(id => providers.get(id))
+		.filter((provider): provider is LLMProvider => provider !== undefined);
+};
+
+/**
+ * Send a request down the step's fallback chain and return the first response that parse accepts.
+ * A provider error or a response parse throws on moves on to the next provider
+ * @param step - Pipeline step, selects the chain
+ * @param request - Provider-neutral request
+ * @param parse - Turns the response into the step's result; throw to reject it
+ * @param options.prefer - Provider to try first
+ * @throws LLMChainError when every provider failed
+ */
+const complete = async <T>(
+	step: LLMStep,
+	request: LLMRequest,
+	parse: (response: LLMResponse) => T,
+	options: { prefer?: string } = {}
+): Promise<T> => {
+	const failures: LLMAttemptFailure[] = [];
+
+	for (const provider of chain(step, options.prefer)) {
+		if (failures.length > 0) {
+			llmFallbacks.inc({ step, provider: provider.id });
+			logger.warn(`Falling back to ${provider.id} for ${step}`, { failures });
+		}
+		try {
+			return parse(await provider.complete(request));
+		} catch (error) {
+			// A cancelled request is not a provider failure
+			if (request.signal?.aborted) {
+				throw error;
+			}
+			failures.push({ provider: provider.id, error: error instanceof Error ? error.message : String(error) });
+		}
+	}
+
+	throw new LLMChainError(step, failures);
+};
+
+/**
+ * Request a JSON object for a step and validate it against the step's schema. Invalid output is sent back
+ * to the provider that produced it along with the issues found, up to LLM_MAX_REPAIRS times
+ * @param step - Pipeline step, selects the chain
+ * @param request - Provider-neutral request (JSON mode is switched on)
+ * @param schema - Declared output shape
+ * @param options.prefer - Provider to try first
+ * @returns The validated output and the id of the provider that produced it
+ * @throws LLMOutputError when the output is still invalid after the last repair
+ * @throws LLMChainError when every provider failed
+ */
+const completeJson = async <T = any>(
+	step: LLMStep,
+	request: LLMRequest,
+	schema: OutputSchema,
+	options: { prefer?: string } = {}
+): Promise<{ result: T; provider: string }> => {
+	const messages: LLMMessage[] = [...request.messages];
+	let prefer = options.prefer;
+
+	for (let attempt = 1; ; attempt++) {
+		const response = await complete(step, { ...request, messages, json: true }, response => response, { prefer });
+
+		let issues: LLMOutputIssue[];
+		let result: T | undefined;
+		try {
+			result = parseJsonResponse(response);
+			issues = validateOutput(result, schema);
+		} catch (error) {
+			issues = [{ path: '', message: `not valid JSON (${error instanceof Error ? error.message : 'parse error'})` }];
+		}
+
+		if (issues.length === 0) {
+			return { result: result as T, provider: response.provider };
+		}
+		if (attempt > MAX_REPAIRS) {
+			llmRepairs.inc({ step, outcome: 'failed' });
+			throw new LLMOutputError(step, issues, attempt, response.provider);
+		}
+
+		llmRepairs.inc({ step, outcome: 'retried' });
+		logger.warn(`Invalid ${step} output from ${response.provider}, asking for a repair`, { attempt, issues });
+		// Keep the conversation on the provider that has to fix its own answer
+		prefer = response.provider;
+		messages.push({ role: 'assistant', content: response.text }, { role: 'user', content: repairMessage(issues) });
+	}
+};
+
+const LLM_PROVIDERS = {
+	register,
+	unregister,
+	get,
+	list,
+	chain,
+	complete,
+	completeJson
+};
+
+export default LLM_PROVIDERS;
@@ -0,0 +1,84 @@
+/**
+ * Pipeline steps that call an LLM. Each step has its own fallback chain (see LLM_CHAIN_<STEP>)
+ */
+export type LLMStep = 'classify' | 'match' | 'rerank' | 'generate' | 'generate_multi' | 'validate_props' | 'validate_query' | 'repair_query';
+
+export const LLM_STEPS: readonly LLMStep[] = [
+	'classify', 'match', 'rerank', 'generate', 'generate_multi', 'validate_props', 'validate_query', 'repair_query'
+];
+
+export interface LLMMessage {
+	role: 'user' | 'assistant';
+	content: string;
+}
+
+export interface LLMRequest {
+	system: string;
+	messages: LLMMessage[];
+	maxTokens: number;
+	temperature?: number;
+	/** Ask for a single JSON object (native JSON mode where the provider has one) */
+	json?: boolean;
+	signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+	input?: number;
+	output?: number;
+}
+
+export interface LLMResponse {
+	text: string;
+	/** Id of the provider that answered */
+	provider: string;
+	model: string;
+	usage: LLMUsage;
+}
+
+/**
+ * A chat model backend (Groq, Anthropic, an OpenAI-compatible server, ...) that can be registered with the agent.
+ * Providers translate an LLMRequest into their API call and report failures by throwing
+ */
+export interface LLMProvider {
+	readonly id: string;
+	readonly model: string;
+	complete(request: LLMRequest): Promise<LLMResponse>;
+	/**
+	 * Cheap authenticated call used by the health subsystem
+	 * @returns Detail for the health report (the model prompts are sent to)
+	 */
+	check(signal?: AbortSignal): Promise<string>;
+}
+
+export interface LLMAttemptFailure {
+	provider: string;
+	error: string;
+}
+
+export interface LLMOutputIssue {
+	/** Dotted path into the JSON output, empty for the whole response */
+	path: string;
+	message: string;
+}
+
+/**
+ * The model kept returning output that does not match the step's schema, after every repair attempt
+ */
+export class LLMOutputError extends Error {
+	constructor(readonly step: LLMStep, readonly issues: LLMOutputIssue[], readonly attempts: number, readonly provider: string) {
+		super(`Invalid ${step} output from ${provider} after ${attempts} attempt(s): ${issues.map(issue => `${issue.path || '(response)'} ${issue.message}`).join('; ')}`);
+		this.name = 'LLMOutputError';
+	}
+}
+
+/**
+ * Every provider in a step's chain failed (or the chain is empty)
+ */
+export class LLMChainError extends Error {
+	constructor(readonly step: LLMStep, readonly failures: LLMAttemptFailure[]) {
+		super(failures.length > 0
+			? `All LLM providers failed for ${step}: ${failures.map(failure => `${failure.provider}: ${failure.error}`).join('; ')}`
+			: `No LLM provider is configured for ${step}`);
+		this.name = 'LLMChainError';
+	}
+}
@@ -0,0 +1,124 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import dotenv from 'dotenv';
+import { REDACTION_RULES, RedactionRule, redact } from './redact';
+import { activeTraceIds } from '../tracing';
+
+dotenv.config();
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Request-scoped fields added to every line logged while the request is handled
+ */
+export interface LogContext {
+	requestId?: string;
+	runtimeId?: string;
+	messageType?: string;
+	user?: string;
+	[field: string]: unknown;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const parseLevel = (value: string | undefined): LogLevel =>
+	value && value.toLowerCase() in LEVELS ? value.toLowerCase() as LogLevel : 'info';
+
+// LOG_REDACT lists the enabled rules; "none" disables redaction
+const parseRules = (value: string | undefined): Set<RedactionRule> => {
+	const names = (value ?? 'credentials,sql_literals,prompts').split(',').map(name => name.trim()).filter(Boolean);
+	const rules = new Set<RedactionRule>();
+	for (const name of names) {
+		if (REDACTION_RULES.includes(name as RedactionRule)) {
+			rules.add(name as RedactionRule);
+		} else if (name !== 'none') {
+			process.stderr.write(`Ignoring unknown LOG_REDACT rule "${name}"\n`);
+		}
+	}
+	return rules;
+};
+
+const config = {
+	level: parseLevel(process.env.LOG_LEVEL),
+	format: process.env.LOG_FORMAT === 'pretty' ? 'pretty' : 'json',
+	rules: parseRules(process.env.LOG_REDACT)
+};
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run fn with fields added to the log context; nested calls inherit and extend the outer context
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+	return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+/**
+ * Add fields to the current context once they become known (e.g. the user after login)
+ */
+export function setLogContext(context: LogContext): void {
+	const store = storage.getStore();
+	if (store) {
+		Object.assign(store, context);
+	}
+}
+
+export function getLogContext(): LogContext {
+	return { ...storage.getStore() };
+}
+
+const formatPretty = (line: Record<string, unknown>): string => {
+	const { time, level, msg, ...rest } = line;
+	const extra = Object.entries(rest)
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+		.join(' ');
+	return `${time} ${String(level).toUpperCase().padEnd(5)} ${msg}${extra ? ` ${extra}` : ''}`;
+};
+
+const write = (level: LogLevel, msg: string, bound: LogFields, fields?: LogFields | Error): void => {
+	if (LEVELS[level] < LEVELS[config.level]) {
+		return;
+	}
+
+	const extra = fields instanceof Error ? { error: fields } : fields;
+	const line = redact({
+		time: new Date().toISOString(),
+		level,
+		msg,
+		...storage.getStore(),
+		...activeTraceIds(),
+		...bound,
+		...extra
+	}, config.rules) as Record<string, unknown>;
+
+	const text = config.format === 'pretty' ? formatPretty(line) : JSON.stringify(line);
+	const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+	stream.write(`${text}\n`);
+};
+
+export interface Logger {
+	debug(msg: string, fields?: LogFields): void;
+	info(msg: string, fields?: LogFields): void;
+	warn(msg: string, fields?: LogFields | Error): void;
+	error(msg: string, fields?: LogFields | Error): void;
+	/** Logger whose lines always carry the given fields (e.g. { component: 'scheduler' }) */
+	child(fields: LogFields): Logger;
+}
+
+const createLogger = (bound: LogFields = {}): Logger => ({
+	debug: (msg, fields) => write('debug', msg, bound, fields),
+	info: (msg, fields) => write('info', msg, bound, fields),
+	warn: (msg, fields) => write('warn', msg, bound, fields),
+	error: (msg, fields) => write('error', msg, bound, fields),
+	child: (fields) => createLogger({ ...bound, ...fields })
+});
+
+/**
+ * Structured logger: one JSON object per line (LOG_FORMAT=pretty for local reading),
+ * filtered by LOG_LEVEL and redacted per LOG_REDACT. Lines logged inside withLogContext
+ * carry the request id, runtime id, message type and user; lines logged inside a span carry its trace and span id
+ */
+const logger = createLogger();
+
+export default logger;
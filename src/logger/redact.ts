@@ -0,0 +1,78 @@
+import { tokenize } from '../sql/tokenizer';
+
+export type RedactionRule = 'credentials' | 'sql_literals' | 'prompts';
+
+export const REDACTION_RULES: readonly RedactionRule[] = ['credentials', 'sql_literals', 'prompts'];
+
+const CREDENTIAL_KEY = /(pass|password|passphrase|secret|token|api_?key|authorization|login_data|private_?key|cookie)$/i;
+const SQL_KEY = /^(sql|query|limitedQuery)$/i;
+const BIND_KEY = /^(params|binds)$/i;
+const PROMPT_KEY = /^(prompt|userPrompt|queryText)$/i;
+const MAX_DEPTH = 6;
+
+/**
+ * Replace string and number literals with ? so the statement shape stays readable
+ */
+export function redactSqlLiterals(sql: string): string {
+	return tokenize(sql)
+		.map(token => token.type === 'string' || token.type === 'number' ? '?' : token.value)
+		.join('');
+}
+
+export const serializeError = (error: Error): Record<string, unknown> => ({
+	name: error.name,
+	message: error.message,
+	stack: error.stack,
+	...('code' in error && error.code !== undefined ? { code: error.code } : {})
+});
+
+/**
+ * Copy log fields, redacting values by key according to the enabled rules.
+ * Errors are serialized, cycles and very deep structures are cut off
+ */
+export function redact(value: unknown, rules: ReadonlySet<RedactionRule>, key = '', depth = 0, seen = new WeakSet<object>()): unknown {
+	if (value === null || value === undefined) {
+		return value;
+	}
+
+	if (key) {
+		if (rules.has('credentials') && CREDENTIAL_KEY.test(key)) {
+			return '[REDACTED]';
+		}
+		if (rules.has('sql_literals') && SQL_KEY.test(key) && typeof value === 'string') {
+			return redactSqlLiterals(value);
+		}
+		if (rules.has('sql_literals') && BIND_KEY.test(key)) {
+			return '[REDACTED]';
+		}
+		if (rules.has('prompts') && PROMPT_KEY.test(key) && typeof value === 'string') {
+			return `[REDACTED ${value.length} chars]`;
+		}
+	}
+
+	if (value instanceof Error) {
+		return redact(serializeError(value), rules, '', depth, seen);
+	}
+	if (typeof value === 'bigint') {
+		return value.toString();
+	}
+	if (typeof value !== 'object') {
+		return value;
+	}
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+	if (seen.has(value)) {
+		return '[Circular]';
+	}
+	if (depth >= MAX_DEPTH) {
+		return Array.isArray(value) ? `[Array(${value.length})]` : '[Object]';
+	}
+
+	seen.add(value);
+	const copy = Array.isArray(value)
+		? value.map(item => redact(item, rules, '', depth + 1, seen))
+		: Object.fromEntries(Object.entries(value).map(([field, item]) => [field, redact(item, rules, field, depth + 1, seen)]));
+	seen.delete(value);
+	return copy;
+}
@@ -1,5 +1,6 @@
 import { SuperatomSDK } from '@superatomai/sdk';
 import { executeRawSQL } from './db/queries';
+import logger from './logger';
 
 
 const bundleDir = process.env.BUNDLE_DIR || '/home/gopinadh/superatom/snowflake-dataset/frontend/dist/assets';
@@ -14,22 +15,21 @@ const sdk = new SuperatomSDK({
 });
  
 export async function SASDK() {
-  console.log('HELLO\r\n\r\n');
   try {
     // Connect to SuperAtom
     await sdk.connect();
-    console.log('Successfully connected to SuperAtom!');
+    logger.info('Connected to SuperAtom');
  
     // Your code here
 
     sdk.addCollection('supply_chain_data', "GET_MANY",() => {
         executeRawSQL("SELECT * FROM supply_chain_data").then((result) => {
-            console.log(result);
+            logger.debug('Fetched supply_chain_data', { success: result.success, rowCount: result.data?.length ?? 0, errors: result.errors });
         }); 
     });
  
   } catch (error) {
-    console.error('Failed to connect to SuperAtom:', error);
+    logger.error('Failed to connect to SuperAtom', { error });
     process.exit(1);
   }
 }
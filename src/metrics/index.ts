@@ -0,0 +1,208 @@
+import { DataSourceResult } from '../datasources/types';
+import { MetricsRegistry } from './registry';
+
+export * from './registry';
+
+const registry = new MetricsRegistry();
+
+const ROW_BUCKETS = [0, 1, 10, 50, 100, 500, 1000, 5000, 10000, 50000];
+
+// ---- Runtime messages (WebSocket) ----
+
+export const messagesReceived = registry.counter(
+	'data_agent_messages_received_total',
+	'Valid messages received from runtimes, by message type',
+	['type']
+);
+
+export const responsesSent = registry.counter(
+	'data_agent_responses_total',
+	'Responses sent to runtimes, by response type and outcome (ok, error, busy, timeout, cancelled)',
+	['type', 'outcome']
+);
+
+export const requestDuration = registry.histogram(
+	'data_agent_request_duration_seconds',
+	'Time from receiving a request to finishing its handler, including queueing, by message type',
+	['type']
+);
+
+export const protocolErrors = registry.counter(
+	'data_agent_protocol_errors_total',
+	'Error messages sent for messages that could not be accepted, by error code',
+	['code']
+);
+
+// ---- Queries ----
+
+export const queriesTotal = registry.counter(
+	'data_agent_queries_total',
+	'Queries run through the query runner, by data source and outcome (ok, error, rejected, timeout, cancelled)',
+	['source', 'outcome']
+);
+
+export const queryDuration = registry.histogram(
+	'data_agent_query_duration_seconds',
+	'Query latency including policy checks and cache lookup, by data source',
+	['source']
+);
+
+export const queryRows = registry.histogram(
+	'data_agent_query_rows',
+	'Rows returned by successful queries, by data source',
+	['source'],
+	ROW_BUCKETS
+);
+
+export const queryCache = registry.counter(
+	'data_agent_query_cache_total',
+	'Query cache lookups for cacheable queries, by data source and result (hit, miss)',
+	['source', 'result']
+);
+
+// ---- LLM providers ----
+
+export const llmRequests = registry.counter(
+	'data_agent_llm_requests_total',
+	'LLM API calls, by provider, model and outcome (ok, error)',
+	['provider', 'model', 'outcome']
+);
+
+export const llmDuration = registry.histogram(
+	'data_agent_llm_request_duration_seconds',
+	'LLM API call latency, by provider and model',
+	['provider', 'model']
+);
+
+export const llmTokens = registry.counter(
+	'data_agent_llm_tokens_total',
+	'Tokens reported by LLM providers, by provider, model and kind (input, output)',
+	['provider', 'model', 'kind']
+);
+
+export const llmFallbacks = registry.counter(
+	'data_agent_llm_fallbacks_total',
+	'Pipeline steps handed to the next provider in their chain after a failure, by step and provider taking over',
+	['step', 'provider']
+);
+
+export const llmRepairs = registry.counter(
+	'data_agent_llm_repairs_total',
+	'LLM outputs that failed their schema, by step and outcome (retried, failed once repairs ran out)',
+	['step', 'outcome']
+);
+
+// ---- Prompt pipeline ----
+
+export const generatedQueries = registry.counter(
+	'data_agent_generated_queries_total',
+	'Generated SQL dry-run against its target source, by outcome (ok, repaired, failed, unverified)',
+	['outcome']
+);
+
+// ---- Scheduler, HTTP API and process ----
+
+export const schedulerRunning = registry.gauge(
+	'data_agent_scheduler_running',
+	'Requests currently running, by message type',
+	['type']
+);
+
+export const schedulerQueued = registry.gauge(
+	'data_agent_scheduler_queued',
+	'Requests waiting in the scheduler queue, by message type',
+	['type']
+);
+
+export const schedulerRejected = registry.counter(
+	'data_agent_scheduler_rejected_total',
+	'Requests rejected because the scheduler queue was full, by message type',
+	['type']
+);
+
+export const httpRequests = registry.counter(
+	'data_agent_http_requests_total',
+	'HTTP API requests, by route and status code',
+	['route', 'status']
+);
+
+export const httpDuration = registry.histogram(
+	'data_agent_http_request_duration_seconds',
+	'HTTP API request latency, by route',
+	['route']
+);
+
+const processStartTime = registry.gauge('process_start_time_seconds', 'Start time of the process since unix epoch in seconds');
+const residentMemory = registry.gauge('process_resident_memory_bytes', 'Resident memory size in bytes');
+const heapUsed = registry.gauge('nodejs_heap_used_bytes', 'Process heap used in bytes');
+
+const startTime = Math.round(Date.now() / 1000 - process.uptime());
+processStartTime.collect(gauge => gauge.set(undefined, startTime));
+residentMemory.collect(gauge => gauge.set(undefined, process.memoryUsage.rss()));
+heapUsed.collect(gauge => gauge.set(undefined, process.memoryUsage().heapUsed));
+
+/**
+ * Outcome label for a response or query envelope
+ */
+export function outcomeOf(payload: any): string {
+	if (!payload || typeof payload !== 'object') return 'ok';
+	if (payload.status === 'timeout' || payload.status === 'cancelled') return payload.status;
+	if (payload.error === 'busy') return 'busy';
+	if (Array.isArray(payload.rejections) && payload.rejections.length > 0) return 'rejected';
+	if (payload.success === false || payload.valid === false || typeof payload.error === 'string') return 'error';
+	return 'ok';
+}
+
+/**
+ * Record a finished query runner call
+ * @param seconds - Elapsed time
+ */
+export function recordQuery(result: DataSourceResult, seconds: number): void {
+	const source = result.source || 'unknown';
+	queriesTotal.inc({ source, outcome: outcomeOf(result) });
+	queryDuration.observe({ source }, seconds);
+	if (result.success) {
+		queryRows.observe({ source }, result.rowCount ?? result.data?.length ?? 0);
+	}
+	if (result.cache) {
+		queryCache.inc({ source, result: result.cache.hit ? 'hit' : 'miss' });
+	}
+}
+
+/**
+ * Time an LLM API call and count it, along with the tokens the provider reports
+ * @param provider - e.g. 'groq', 'anthropic'
+ * @param model - Model the call was sent to
+ * @param call - The API call
+ * @param usage - Reads input/output token counts from the response
+ */
+export async function observeLlmCall<T>(
+	provider: string,
+	model: string,
+	call: () => Promise<T>,
+	usage: (response: T) => { input?: number; output?: number }
+): Promise<T> {
+	const done = llmDuration.startTimer({ provider, model });
+	try {
+		const response = await call();
+		llmRequests.inc({ provider, model, outcome: 'ok' });
+		const tokens = usage(response);
+		if (tokens.input) llmTokens.inc({ provider, model, kind: 'input' }, tokens.input);
+		if (tokens.output) llmTokens.inc({ provider, model, kind: 'output' }, tokens.output);
+		return response;
+	} catch (error) {
+		llmRequests.inc({ provider, model, outcome: 'error' });
+		throw error;
+	} finally {
+		done();
+	}
+}
+
+/**
+ * Prometheus text exposition of every metric
+ */
+export function renderMetrics(): string {
+	return registry.render();
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
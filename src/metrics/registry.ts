@@ -0,0 +1,172 @@
+export type Labels = Record<string, string | number | undefined>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/** Latency buckets in seconds, from 5ms to 2 minutes */
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+const escapeLabel = (value: string): string => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatValue = (value: number): string => {
+	if (value === Infinity) return '+Inf';
+	if (value === -Infinity) return '-Inf';
+	return Number.isNaN(value) ? 'NaN' : String(value);
+};
+
+abstract class Metric {
+	abstract readonly type: MetricType;
+
+	constructor(readonly name: string, readonly help: string, readonly labelNames: readonly string[] = []) {}
+
+	// Label values in labelNames order, so the same labels always map to the same series
+	protected key(labels: Labels = {}): string {
+		return JSON.stringify(this.labelNames.map(name => String(labels[name] ?? '')));
+	}
+
+	protected labelText(key: string, extra: [string, string][] = []): string {
+		const values: string[] = JSON.parse(key);
+		const pairs = this.labelNames.map((name, index): [string, string] => [name, values[index]]).concat(extra);
+		return pairs.length > 0 ? `{${pairs.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}` : '';
+	}
+
+	abstract samples(): string[];
+
+	render(): string {
+		return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+	}
+}
+
+export class Counter extends Metric {
+	readonly type = 'counter';
+	private values = new Map<string, number>();
+
+	inc(labels?: Labels, value = 1): void {
+		const key = this.key(labels);
+		this.values.set(key, (this.values.get(key) || 0) + value);
+	}
+
+	samples(): string[] {
+		return Array.from(this.values, ([key, value]) => `${this.name}${this.labelText(key)} ${formatValue(value)}`);
+	}
+}
+
+/**
+ * Gauge whose values are either set directly or read from a collect callback at scrape time
+ */
+export class Gauge extends Metric {
+	readonly type = 'gauge';
+	private values = new Map<string, number>();
+	private collectors: ((gauge: Gauge) => void)[] = [];
+
+	set(labels: Labels | undefined, value: number): void {
+		this.values.set(this.key(labels), value);
+	}
+
+	/**
+	 * Register a callback that sets current values before every scrape
+	 * @returns Function removing the callback
+	 */
+	collect(collector: (gauge: Gauge) => void): () => void {
+		this.collectors.push(collector);
+		return () => {
+			this.collectors = this.collectors.filter(existing => existing !== collector);
+		};
+	}
+
+	samples(): string[] {
+		if (this.collectors.length > 0) {
+			this.values.clear();
+			for (const collector of this.collectors) {
+				collector(this);
+			}
+		}
+		return Array.from(this.values, ([key, value]) => `${this.name}${this.labelText(key)} ${formatValue(value)}`);
+	}
+}
+
+interface HistogramSeries {
+	counts: number[];
+	sum: number;
+	count: number;
+}
+
+export class Histogram extends Metric {
+	readonly type = 'histogram';
+	private series = new Map<string, HistogramSeries>();
+
+	constructor(name: string, help: string, labelNames: readonly string[] = [], readonly buckets: readonly number[] = DURATION_BUCKETS) {
+		super(name, help, labelNames);
+	}
+
+	observe(labels: Labels | undefined, value: number): void {
+		const key = this.key(labels);
+		let series = this.series.get(key);
+		if (!series) {
+			series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+			this.series.set(key, series);
+		}
+		this.buckets.forEach((bound, index) => {
+			if (value <= bound) {
+				series!.counts[index]++;
+			}
+		});
+		series.sum += value;
+		series.count++;
+	}
+
+	/**
+	 * Start a timer; calling the returned function observes the elapsed seconds
+	 */
+	startTimer(labels?: Labels): (extra?: Labels) => number {
+		const start = process.hrtime.bigint();
+		return (extra?: Labels) => {
+			const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+			this.observe({ ...labels, ...extra }, seconds);
+			return seconds;
+		};
+	}
+
+	samples(): string[] {
+		const lines: string[] = [];
+		for (const [key, series] of this.series) {
+			this.buckets.forEach((bound, index) => {
+				lines.push(`${this.name}_bucket${this.labelText(key, [['le', formatValue(bound)]])} ${series.counts[index]}`);
+			});
+			lines.push(`${this.name}_bucket${this.labelText(key, [['le', '+Inf']])} ${series.count}`);
+			lines.push(`${this.name}_sum${this.labelText(key)} ${formatValue(series.sum)}`);
+			lines.push(`${this.name}_count${this.labelText(key)} ${series.count}`);
+		}
+		return lines;
+	}
+}
+
+/**
+ * Holds metrics by name and renders them in the Prometheus text exposition format (version 0.0.4)
+ */
+export class MetricsRegistry {
+	private metrics = new Map<string, Metric>();
+
+	private add<M extends Metric>(metric: M): M {
+		if (this.metrics.has(metric.name)) {
+			throw new Error(`Metric "${metric.name}" is already registered`);
+		}
+		this.metrics.set(metric.name, metric);
+		return metric;
+	}
+
+	counter(name: string, help: string, labelNames?: readonly string[]): Counter {
+		return this.add(new Counter(name, help, labelNames));
+	}
+
+	gauge(name: string, help: string, labelNames?: readonly string[]): Gauge {
+		return this.add(new Gauge(name, help, labelNames));
+	}
+
+	histogram(name: string, help: string, labelNames?: readonly string[], buckets?: readonly number[]): Histogram {
+		return this.add(new Histogram(name, help, labelNames, buckets));
+	}
+
+	render(): string {
+		return `${Array.from(this.metrics.values(), metric => metric.render()).join('\n')}\n`;
+	}
+}
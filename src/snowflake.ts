@@ -1,144 +1,274 @@
 import snowflake from 'snowflake-sdk';
+import { SnowflakeProfile, isValidIdentifier, sameIdentifier } from './config/snowflake';
+import logger from './logger';
 
-const connection = snowflake.createConnection({
-  account: 'APDRYTY-PL04919',
-  username: 'ASHISHBROKEN',
-  password: 'd8Ukz8JNhZa6qgJ',
-  role: 'ACCOUNTADMIN',
-  warehouse: 'SNOWFLAKE_LEARNING_WH',
-  database: 'SNOWFLAKE_SAMPLE_DATA',
-  schema: 'TPCH_SF10'
-});
-
-// Track connection state
-let isConnected = false;
-let connectPromise: Promise<void> | null = null;
-
-// Ensure connection is established
-const ensureConnection = (): Promise<void> => {
-  // If already connected, return immediately
-  if (isConnected) {
-    return Promise.resolve();
-  }
+export interface SnowflakeSessionOverrides {
+  warehouse?: string;
+  role?: string;
+}
 
-  // If connection is in progress, return the existing promise
-  if (connectPromise) {
-    return connectPromise;
+export interface SnowflakeStatementControl {
+  /** Sets STATEMENT_TIMEOUT_IN_SECONDS so the warehouse stops the statement even if the client goes away */
+  timeoutMs?: number;
+  /** Aborting cancels the running statement */
+  signal?: AbortSignal;
+}
+
+interface ConnectionState {
+  connection: snowflake.Connection;
+  isConnected: boolean;
+  connectPromise: Promise<void> | null;
+  /** Statements running on this session; busy sessions are never closed to make room */
+  active: number;
+  lastUsed: number;
+}
+
+// Sessions kept open per profile, one per warehouse/role combination in use
+const MAX_SESSIONS = parseInt(process.env.SNOWFLAKE_MAX_SESSIONS || '4', 10);
+
+// Build driver options for a profile, switching to JWT auth when a private key is configured
+const buildConnectionOptions = (profile: SnowflakeProfile, overrides: SnowflakeSessionOverrides): snowflake.ConnectionOptions => {
+  const options: snowflake.ConnectionOptions = {
+    account: profile.account,
+    username: profile.username,
+    role: overrides.role || profile.role,
+    warehouse: overrides.warehouse || profile.warehouse,
+    database: profile.database,
+    schema: profile.schema
+  };
+
+  if (profile.privateKey || profile.privateKeyPath) {
+    options.authenticator = 'SNOWFLAKE_JWT';
+    options.privateKey = profile.privateKey;
+    options.privateKeyPath = profile.privateKeyPath;
+    options.privateKeyPass = profile.privateKeyPass;
+  } else {
+    options.password = profile.password;
   }
 
-  // Start new connection
-  connectPromise = new Promise((resolve, reject) => {
-    connection.connect((err) => {
-      if (err) {
-        connectPromise = null;
-        reject(err);
-        return;
-      }
-      isConnected = true;
-      connectPromise = null;
-      resolve();
-    });
-  });
+  return options;
+};
 
-  return connectPromise;
+// Convert rows to simplified JSON
+const simplifyRows = (rows: any[] | undefined): any[] => {
+  return rows?.map(row => {
+    const simplified: any = {};
+    for (const [key, value] of Object.entries(row) as any) {
+      // Handle Snowflake date objects
+      if (value && typeof value === 'object' && 'toJSON' in value) {
+        simplified[key] = value.toJSON();
+      } else {
+        simplified[key] = value;
+      }
+    }
+    return simplified;
+  }) || [];
 };
 
-const test = async () => {
-  await ensureConnection();
+/**
+ * Snowflake client for a single connection profile.
+ * Sessions with a different warehouse/role are opened lazily and kept per override combination,
+ * so concurrent requests never switch each other's session context. Overrides are limited to the
+ * profile's own role/warehouse and its ALLOWED_ROLES/ALLOWED_WAREHOUSES, and at most SNOWFLAKE_MAX_SESSIONS
+ * sessions stay open (the least recently used idle one is closed to make room)
+ */
+export class SnowflakeClient {
+  private connections = new Map<string, ConnectionState>();
+
+  constructor(readonly profile: SnowflakeProfile) {}
 
-  return new Promise((resolve, reject) => {
-    connection.execute({
-      sqlText: `SELECT * FROM LINEITEM LIMIT 10`,
-      complete: (err, _stmt, rows) => {
+  /**
+   * Validate overrides against the profile; an override naming the profile's own role/warehouse is dropped
+   * @throws Error if an override is not a valid identifier or not allowed for this profile
+   */
+  private resolveOverrides(overrides: SnowflakeSessionOverrides = {}): SnowflakeSessionOverrides {
+    const resolve = (key: 'warehouse' | 'role', allowed: string[] = []): string | undefined => {
+      const value = overrides[key];
+      if (!value) {
+        return undefined;
+      }
+      if (!isValidIdentifier(value)) {
+        throw new Error(`Invalid ${key} override "${value}"`);
+      }
+      const current = this.profile[key];
+      if (current && sameIdentifier(value, current)) {
+        return undefined;
+      }
+      if (!allowed.some(item => sameIdentifier(value, item))) {
+        throw new Error(`${key} override "${value}" is not allowed for Snowflake profile "${this.profile.name}"`);
+      }
+      return value;
+    };
+
+    return {
+      warehouse: resolve('warehouse', this.profile.allowedWarehouses),
+      role: resolve('role', this.profile.allowedRoles)
+    };
+  }
+
+  private getState(overrides: SnowflakeSessionOverrides): ConnectionState {
+    const key = `${overrides.warehouse || ''}|${overrides.role || ''}`;
+    let state = this.connections.get(key);
+
+    if (!state) {
+      this.makeRoom();
+      state = {
+        connection: snowflake.createConnection(buildConnectionOptions(this.profile, overrides)),
+        isConnected: false,
+        connectPromise: null,
+        active: 0,
+        lastUsed: Date.now()
+      };
+      this.connections.set(key, state);
+    }
+
+    state.lastUsed = Date.now();
+    return state;
+  }
+
+  /**
+   * Close the least recently used idle session when the pool is full
+   * @throws Error if every open session is busy
+   */
+  private makeRoom(): void {
+    if (this.connections.size < MAX_SESSIONS) {
+      return;
+    }
+    const idle = Array.from(this.connections.entries())
+      .filter(([, state]) => state.active === 0 && !state.connectPromise)
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed)[0];
+    if (!idle) {
+      throw new Error(`All ${MAX_SESSIONS} Snowflake sessions of profile "${this.profile.name}" are busy, try again later`);
+    }
+
+    const [key, state] = idle;
+    this.connections.delete(key);
+    if (state.isConnected) {
+      state.connection.destroy((err) => {
         if (err) {
-          reject(err);
-          return;
+          logger.warn('Failed to close idle Snowflake session', { error: err.message });
         }
+      });
+    }
+  }
 
-        // Convert rows to simplified JSON
-        const simplifiedData = rows?.map(row => {
-          const simplified: any = {};
-          for (const [key, value] of Object.entries(row) as any) {
-            // Handle Snowflake date objects
-            if (value && typeof value === 'object' && 'toJSON' in value) {
-              simplified[key] = value.toJSON();
-            } else {
-              simplified[key] = value;
-            }
+  // Ensure connection is established
+  ensureConnection(overrides?: SnowflakeSessionOverrides): Promise<snowflake.Connection> {
+    return this.connect(this.getState(this.resolveOverrides(overrides)));
+  }
+
+  // Connect a session, reusing a connection in progress
+  private connect(state: ConnectionState): Promise<snowflake.Connection> {
+    // If already connected, return immediately
+    if (state.isConnected) {
+      return Promise.resolve(state.connection);
+    }
+
+    // If connection is in progress, reuse the existing promise
+    if (!state.connectPromise) {
+      state.connectPromise = new Promise((resolve, reject) => {
+        state.connection.connect((err) => {
+          state.connectPromise = null;
+          if (err) {
+            reject(err);
+            return;
           }
-          return simplified;
+          state.isConnected = true;
+          resolve();
         });
+      });
+    }
+
+    return state.connectPromise.then(() => state.connection);
+  }
+
+  /**
+   * Execute a statement (with optional positional binds) and return the raw driver rows together with the column descriptors
+   */
+  async execute_statement(
+    sql: string,
+    maxRows: number = 50,
+    overrides?: SnowflakeSessionOverrides,
+    binds?: snowflake.Bind[],
+    control: SnowflakeStatementControl = {}
+  ): Promise<{ rows: any[]; columns: snowflake.Column[] }> {
+    const state = this.getState(this.resolveOverrides(overrides));
+    const { signal, timeoutMs } = control;
+
+    // Busy from here on, so makeRoom cannot close this session while it connects or runs the statement
+    state.active++;
+    try {
+      // Ensure we're connected before executing
+      const connection = await this.connect(state);
 
-        resolve(simplifiedData);
+      if (signal?.aborted) {
+        throw new Error(`Statement aborted (${signal.reason})`);
       }
-    });
-  });
-}
 
+      return await new Promise<{ rows: any[]; columns: snowflake.Column[] }>((resolve, reject) => {
+        const onAbort = () => {
+          statement.cancel((err) => {
+            if (err) {
+              logger.warn('Failed to cancel Snowflake statement', { error: err.message });
+            }
+          });
+        };
 
-const execute_query = async (sql: string, maxRows: number = 50): Promise<any[]> => {
-  // Ensure we're connected before executing
-  await ensureConnection();
+        const statement = connection.execute({
+          sqlText: sql,
+          binds: binds && binds.length > 0 ? binds : undefined,
+          parameters: timeoutMs ? { STATEMENT_TIMEOUT_IN_SECONDS: Math.ceil(timeoutMs / 1000) } : undefined,
+          complete: (err, stmt, rows) => {
+            signal?.removeEventListener('abort', onAbort);
 
-  return new Promise((resolve, reject) => {
-    connection.execute({
-      sqlText: sql,
-      complete: (err, _stmt, rows) => {
-        if (err) {
-          reject(err);
-          return;
-        }
+            if (err) {
+              reject(err);
+              return;
+            }
+
+            let resultRows = rows || [];
 
-        // Convert rows to simplified JSON
-        let simplifiedData = rows?.map(row => {
-          const simplified: any = {};
-          for (const [key, value] of Object.entries(row) as any) {
-            // Handle Snowflake date objects
-            if (value && typeof value === 'object' && 'toJSON' in value) {
-              simplified[key] = value.toJSON();
-            } else {
-              simplified[key] = value;
+            // Apply hard limit to prevent memory issues
+            if (resultRows.length > maxRows) {
+              logger.warn(`Query returned ${resultRows.length} rows, truncating to ${maxRows}`);
+              resultRows = resultRows.slice(0, maxRows);
             }
+
+            resolve({ rows: resultRows, columns: stmt.getColumns() || [] });
           }
-          return simplified;
-        }) || [];
+        });
 
-        // Apply hard limit to prevent memory issues
-        if (simplifiedData.length > maxRows) {
-          console.warn(`Query returned ${simplifiedData.length} rows, truncating to ${maxRows}`);
-          simplifiedData = simplifiedData.slice(0, maxRows);
-        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    } finally {
+      state.active--;
+    }
+  }
 
-        resolve(simplifiedData);
-      }
-    });
-  });
-}
+  async execute_query(sql: string, maxRows: number = 50, overrides?: SnowflakeSessionOverrides): Promise<any[]> {
+    const { rows } = await this.execute_statement(sql, maxRows, overrides);
+    return simplifyRows(rows);
+  }
 
-// Clean disconnect
-const disconnect = (): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    if (!isConnected) {
-      resolve();
-      return;
-    }
+  // Clean disconnect of every open session
+  async disconnect(): Promise<void> {
+    const states = Array.from(this.connections.values());
+    this.connections.clear();
 
-    connection.destroy((err) => {
-      if (err) {
-        reject(err);
+    await Promise.all(states.map(state => new Promise<void>((resolve, reject) => {
+      if (!state.isConnected) {
+        resolve();
         return;
       }
-      isConnected = false;
-      resolve();
-    });
-  });
-}
 
-const SNOWFLAKE = {
-  test,
-  execute_query,
-  disconnect,
-  ensureConnection
+      state.connection.destroy((err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        state.isConnected = false;
+        resolve();
+      });
+    })));
+  }
 }
-
-export default SNOWFLAKE;
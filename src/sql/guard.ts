@@ -0,0 +1,341 @@
+import { Parser } from 'node-sql-parser';
+import { SqlDialect } from '../datasources/types';
+import { hasBackslashEscapes, significantTokens, splitStatements, tokenize } from './tokenizer';
+
+export type StatementType =
+	| 'select'
+	| 'insert'
+	| 'update'
+	| 'delete'
+	| 'merge'
+	| 'ddl'
+	| 'dcl'
+	| 'utility'
+	| 'unknown';
+
+export interface SqlPolicy {
+	/** Only statements that read data are allowed */
+	readOnly: boolean;
+	/** Allow CREATE/ALTER/DROP/TRUNCATE/RENAME (only relevant when readOnly is false) */
+	allowDdl: boolean;
+	/** If set, every referenced table must be in this list ("table" or "schema.table", case-insensitive) */
+	allowedTables?: string[];
+	/** If set, every schema-qualified table must live in one of these schemas (case-insensitive) */
+	allowedSchemas?: string[];
+}
+
+export type SqlRejectionCode =
+	| 'empty_query'
+	| 'multiple_statements'
+	| 'write_not_allowed'
+	| 'ddl_not_allowed'
+	| 'statement_not_allowed'
+	| 'table_not_allowed'
+	| 'schema_not_allowed'
+	| 'function_not_allowed'
+	| 'tables_unverified';
+
+export interface SqlRejection {
+	code: SqlRejectionCode;
+	message: string;
+}
+
+export interface SqlGuardResult {
+	allowed: boolean;
+	statementType: StatementType;
+	tables: string[];
+	/** Whether the statement was classified from a full parse (true) or a token scan fallback (false) */
+	parsed: boolean;
+	rejections: SqlRejection[];
+}
+
+export const DEFAULT_SQL_POLICY: SqlPolicy = {
+	readOnly: true,
+	allowDdl: false
+};
+
+const parser = new Parser();
+
+const PARSER_DIALECTS: Record<SqlDialect, string> = {
+	postgres: 'postgresql',
+	snowflake: 'snowflake',
+	mysql: 'mysql',
+	sqlite: 'sqlite',
+	duckdb: 'postgresql'
+};
+
+const AST_TYPES: Record<string, StatementType> = {
+	select: 'select',
+	insert: 'insert',
+	replace: 'insert',
+	update: 'update',
+	delete: 'delete',
+	merge: 'merge',
+	create: 'ddl',
+	alter: 'ddl',
+	drop: 'ddl',
+	truncate: 'ddl',
+	rename: 'ddl',
+	grant: 'dcl',
+	revoke: 'dcl',
+	show: 'select',
+	desc: 'select',
+	describe: 'select',
+	explain: 'select'
+};
+
+// Leading keywords used when the parser cannot handle a statement
+const KEYWORD_TYPES: Record<string, StatementType> = {
+	SELECT: 'select',
+	WITH: 'select',
+	VALUES: 'select',
+	SHOW: 'select',
+	DESC: 'select',
+	DESCRIBE: 'select',
+	EXPLAIN: 'select',
+	INSERT: 'insert',
+	UPSERT: 'insert',
+	REPLACE: 'insert',
+	UPDATE: 'update',
+	DELETE: 'delete',
+	MERGE: 'merge',
+	CREATE: 'ddl',
+	ALTER: 'ddl',
+	DROP: 'ddl',
+	TRUNCATE: 'ddl',
+	RENAME: 'ddl',
+	UNDROP: 'ddl',
+	COMMENT: 'ddl',
+	GRANT: 'dcl',
+	REVOKE: 'dcl'
+};
+
+// Keywords that make an otherwise SELECT-looking statement write (e.g. data-modifying CTEs)
+const WRITE_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'TRUNCATE', 'DROP', 'ALTER', 'CREATE', 'GRANT', 'REVOKE', 'COPY', 'CALL', 'EXECUTE', 'UNDROP']);
+
+// Functions with side effects that must not run through a read-only source
+const DENIED_FUNCTIONS = new Set([
+	'PG_SLEEP', 'PG_TERMINATE_BACKEND', 'PG_CANCEL_BACKEND', 'PG_READ_FILE', 'PG_READ_BINARY_FILE',
+	'PG_LS_DIR', 'LO_IMPORT', 'LO_EXPORT', 'DBLINK', 'DBLINK_EXEC', 'SET_CONFIG', 'SYSTEM$CANCEL_QUERY',
+	'SYSTEM$CANCEL_ALL_QUERIES', 'SYSTEM$ABORT_SESSION', 'SYSTEM$WAIT', 'NEXTVAL', 'SETVAL',
+	'PG_ADVISORY_LOCK', 'PG_ADVISORY_XACT_LOCK'
+]);
+
+function unquote(name: string): string {
+	return name.replace(/^["`](.*)["`]$/, '$1');
+}
+
+/**
+ * Classify a statement with a keyword scan, for SQL the parser does not understand.
+ * Conservative: any write keyword anywhere in a SELECT/WITH statement makes it a write
+ */
+function classifyByTokens(statement: string, dialect: SqlDialect): { statementType: StatementType; tables: string[] } {
+	const tokens = significantTokens(tokenize(statement, dialect));
+	const words = tokens.filter(token => token.type === 'word').map(token => token.value.toUpperCase());
+	let statementType: StatementType = KEYWORD_TYPES[words[0]] || 'unknown';
+
+	if (statementType === 'select') {
+		const writeKeyword = words.find(word => WRITE_KEYWORDS.has(word));
+		if (writeKeyword) {
+			statementType = KEYWORD_TYPES[writeKeyword] || 'unknown';
+		}
+		if (words.includes('INTO')) {
+			// SELECT ... INTO creates a table in Postgres
+			statementType = 'ddl';
+		}
+	}
+
+	// CTE names (name AS ( ... )) are not tables
+	const cteNames = new Set<string>();
+	if (words[0] === 'WITH') {
+		for (let i = 0; i < tokens.length - 2; i++) {
+			if (tokens[i + 1].value.toUpperCase() === 'AS' && tokens[i + 2].value === '(') {
+				cteNames.add(unquote(tokens[i].value).toLowerCase());
+			}
+		}
+	}
+
+	// Table names follow FROM / JOIN (possibly schema-qualified)
+	const tables: string[] = [];
+	for (let i = 0; i < tokens.length - 1; i++) {
+		const keyword = tokens[i].value.toUpperCase();
+		if (tokens[i].type !== 'word' || (keyword !== 'FROM' && keyword !== 'JOIN')) {
+			continue;
+		}
+		const parts: string[] = [];
+		let j = i + 1;
+		while (j < tokens.length && (tokens[j].type === 'word' || tokens[j].type === 'quoted_identifier')) {
+			parts.push(unquote(tokens[j].value));
+			if (tokens[j + 1]?.value !== '.') {
+				break;
+			}
+			j += 2;
+		}
+		if (parts.length > 0 && !cteNames.has(parts.join('.').toLowerCase())) {
+			tables.push(parts.join('.'));
+		}
+	}
+
+	return { statementType, tables: Array.from(new Set(tables)) };
+}
+
+/**
+ * Classify a statement from its AST and collect the tables it references (excluding CTE names)
+ */
+function classifyByAst(statement: string, dialect: SqlDialect): { statementType: StatementType; tables: string[] } {
+	const database = PARSER_DIALECTS[dialect];
+	const parsed = parser.astify(statement, { database });
+	const ast: any = Array.isArray(parsed) ? parsed[0] : parsed;
+
+	let statementType: StatementType = AST_TYPES[String(ast?.type).toLowerCase()] || 'utility';
+
+	if (statementType === 'select') {
+		// Data-modifying CTEs and SELECT ... INTO are writes even though the outer statement is a SELECT
+		for (const cte of ast.with || []) {
+			const cteType = AST_TYPES[String(cte?.stmt?.ast?.type || cte?.stmt?.type).toLowerCase()];
+			if (cteType && cteType !== 'select') {
+				statementType = cteType;
+			}
+		}
+		if (ast.into && ast.into.position) {
+			statementType = 'ddl';
+		}
+	}
+
+	const cteNames = new Set<string>((ast.with || []).map((cte: any) => String(cte?.name?.value ?? cte?.name).toLowerCase()));
+	const tables = parser.tableList(statement, { database })
+		.map(entry => {
+			const [, schema, table] = entry.split('::');
+			return schema && schema !== 'null' ? `${schema}.${table}` : table;
+		})
+		.filter(name => !cteNames.has(name.toLowerCase()));
+
+	return { statementType, tables: Array.from(new Set(tables)) };
+}
+
+/**
+ * The parser reads a backslash in any '...' string as an escape. Where the dialect does not (plain Postgres strings),
+ * its AST can put the rest of the statement inside the string, so the statement is classified by tokens instead
+ */
+function parserMayMisread(statement: string, dialect: SqlDialect): boolean {
+	return tokenize(statement, dialect).some(token =>
+		token.type === 'string' && token.value.startsWith("'") && token.value.includes('\\') && !hasBackslashEscapes(token, dialect)
+	);
+}
+
+function findDeniedFunction(statement: string, dialect: SqlDialect): string | undefined {
+	const tokens = significantTokens(tokenize(statement, dialect));
+	for (let i = 0; i < tokens.length - 1; i++) {
+		if (tokens[i].type === 'word' && tokens[i + 1].value === '(' && DENIED_FUNCTIONS.has(tokens[i].value.toUpperCase())) {
+			return tokens[i].value;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Validate a SQL payload against a source policy.
+ * Multi-statement payloads are always rejected. Statements are classified from the parser AST;
+ * if the parser does not support the syntax (or would read a backslash in a string differently from the dialect),
+ * a conservative keyword scan is used instead.
+ * The keyword scan cannot reliably list every table, so table/schema allow-lists reject statements it had to classify
+ * @param sql - SQL text as received from the runtime
+ * @param dialect - Dialect of the target source
+ * @param policy - Policy of the target source
+ * @returns Classification and the reasons the statement was rejected (empty when allowed)
+ */
+export function checkSql(sql: string, dialect: SqlDialect, policy: SqlPolicy = DEFAULT_SQL_POLICY): SqlGuardResult {
+	const statements = splitStatements(sql || '', dialect);
+
+	if (statements.length === 0) {
+		return {
+			allowed: false,
+			statementType: 'unknown',
+			tables: [],
+			parsed: false,
+			rejections: [{ code: 'empty_query', message: 'SQL query cannot be empty' }]
+		};
+	}
+
+	if (statements.length > 1) {
+		return {
+			allowed: false,
+			statementType: 'unknown',
+			tables: [],
+			parsed: false,
+			rejections: [{ code: 'multiple_statements', message: `Only one statement is allowed per request, received ${statements.length}` }]
+		};
+	}
+
+	const statement = statements[0];
+	let classification: { statementType: StatementType; tables: string[] } | undefined;
+	let parsed = !parserMayMisread(statement, dialect);
+
+	if (parsed) {
+		try {
+			classification = classifyByAst(statement, dialect);
+		} catch {
+			parsed = false;
+		}
+	}
+	if (!classification) {
+		classification = classifyByTokens(statement, dialect);
+	}
+
+	const { statementType, tables } = classification;
+	const rejections: SqlRejection[] = [];
+
+	if (policy.readOnly && statementType !== 'select') {
+		rejections.push({
+			code: statementType === 'ddl' ? 'ddl_not_allowed' : statementType === 'unknown' || statementType === 'utility' ? 'statement_not_allowed' : 'write_not_allowed',
+			message: `${statementType.toUpperCase()} statements are not allowed on a read-only source`
+		});
+	} else if (statementType === 'ddl' && !policy.allowDdl) {
+		rejections.push({ code: 'ddl_not_allowed', message: 'DDL statements are not allowed on this source' });
+	}
+
+	if (policy.readOnly) {
+		const deniedFunction = findDeniedFunction(statement, dialect);
+		if (deniedFunction) {
+			rejections.push({ code: 'function_not_allowed', message: `Function ${deniedFunction} is not allowed on a read-only source` });
+		}
+	}
+
+	const hasAllowList = !!policy.allowedTables?.length || !!policy.allowedSchemas?.length;
+	if (hasAllowList && !parsed) {
+		rejections.push({
+			code: 'tables_unverified',
+			message: 'The query could not be parsed, so its tables cannot be checked against the allow-list'
+		});
+	}
+
+	if (policy.allowedTables && policy.allowedTables.length > 0) {
+		const allowed = new Set(policy.allowedTables.map(name => name.toLowerCase()));
+		for (const table of tables) {
+			const fullName = table.toLowerCase();
+			const shortName = fullName.split('.').pop() as string;
+			if (!allowed.has(fullName) && !allowed.has(shortName)) {
+				rejections.push({ code: 'table_not_allowed', message: `Table ${table} is not in the allow-list` });
+			}
+		}
+	}
+
+	if (policy.allowedSchemas && policy.allowedSchemas.length > 0) {
+		const allowed = new Set(policy.allowedSchemas.map(name => name.toLowerCase()));
+		for (const table of tables) {
+			const parts = table.toLowerCase().split('.');
+			// Unqualified tables resolve to the connection's configured schema
+			if (parts.length > 1 && !allowed.has(parts[parts.length - 2])) {
+				rejections.push({ code: 'schema_not_allowed', message: `Schema of ${table} is not in the allow-list` });
+			}
+		}
+	}
+
+	return {
+		allowed: rejections.length === 0,
+		statementType,
+		tables,
+		parsed,
+		rejections
+	};
+}
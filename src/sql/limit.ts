@@ -0,0 +1,184 @@
+import { SqlDialect } from '../datasources/types';
+import { Token, tokenize } from './tokenizer';
+
+interface TopLevelToken {
+	token: Token;
+	/** Index into the significant token list */
+	index: number;
+}
+
+const QUERY_KEYWORDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE']);
+const SET_OPERATORS = new Set(['UNION', 'INTERSECT', 'EXCEPT', 'MINUS']);
+const LOCKING_KEYWORDS = new Set(['UPDATE', 'SHARE', 'NO', 'KEY']);
+
+function isWord(token: Token | undefined, value: string): boolean {
+	return !!token && token.type === 'word' && token.value.toUpperCase() === value;
+}
+
+function replaceToken(sql: string, token: Token, value: string): string {
+	return sql.slice(0, token.start) + value + sql.slice(token.end);
+}
+
+function insertAt(sql: string, position: number, text: string): string {
+	return sql.slice(0, position) + text + sql.slice(position);
+}
+
+/**
+ * Wrap the query so the cap applies to its complete result, keeping any limit inside untouched.
+ * The inner query sits on its own lines so trailing line comments cannot swallow the wrapper
+ */
+function wrapWithCap(sql: string, lastSignificant: Token, cap: number): string {
+	const inner = sql.slice(0, lastSignificant.end).trim();
+	return `SELECT * FROM (\n${inner}\n) AS _capped LIMIT ${cap}`;
+}
+
+/**
+ * Significant tokens of a statement, without trailing semicolons (they are not part of the query)
+ * @returns null if the statement is empty or not a query
+ */
+function queryTokens(sql: string, dialect: SqlDialect): Token[] | null {
+	const significant = tokenize(sql, dialect).filter(token => token.type !== 'whitespace' && token.type !== 'comment');
+
+	let last = significant.length - 1;
+	while (last >= 0 && significant[last].value === ';') last--;
+	if (last < 0) {
+		return null;
+	}
+	const tokens = significant.slice(0, last + 1);
+
+	const firstWord = tokens.find(token => token.value !== '(');
+	if (!firstWord || firstWord.type !== 'word' || !QUERY_KEYWORDS.has(firstWord.value.toUpperCase())) {
+		return null;
+	}
+	return tokens;
+}
+
+/**
+ * Cap the number of rows returned by the outermost query of a statement.
+ *
+ * Only the top-level (parenthesis depth 0) row-limiting clause counts; limits inside subqueries and
+ * CTEs leave the outer query unbounded. Handling of the outer clause:
+ * - LIMIT n (or MySQL LIMIT offset, n) / FETCH FIRST n ROWS / Snowflake TOP n: kept if n <= cap, otherwise lowered to cap
+ * - LIMIT ALL / LIMIT NULL: replaced by the cap
+ * - bind placeholder ($1, ?, :name) or expression (LIMIT 10 + 1000): the query is wrapped in SELECT * FROM (...) LIMIT cap
+ * - OFFSET without LIMIT: LIMIT cap is inserted before OFFSET
+ * - no clause: LIMIT cap is added after the last token, before trailing comments and semicolons
+ *   (and before a Postgres FOR UPDATE/SHARE locking clause)
+ * Statements that are not queries (INSERT, SHOW, ...) are returned unchanged.
+ *
+ * @param sql - Single SQL statement
+ * @param cap - Maximum number of rows
+ * @param dialect - Dialect of the target source
+ * @returns Rewritten SQL
+ */
+export function applyRowCap(sql: string, cap: number, dialect: SqlDialect = 'postgres'): string {
+	if (!sql || sql.trim().length === 0 || !Number.isInteger(cap) || cap <= 0) {
+		return sql;
+	}
+
+	const tokens = queryTokens(sql, dialect);
+	if (!tokens) {
+		return sql;
+	}
+
+	// Collect depth-0 tokens of the outermost query
+	const topLevel: TopLevelToken[] = [];
+	let depth = 0;
+	tokens.forEach((token, index) => {
+		if (token.value === '(') {
+			depth++;
+		} else if (token.value === ')') {
+			depth--;
+		} else if (depth === 0) {
+			topLevel.push({ token, index });
+		}
+	});
+
+	const find = (keyword: string) => topLevel.find(({ token }) => isWord(token, keyword));
+	const limit = find('LIMIT');
+	const fetch = find('FETCH');
+	const offset = find('OFFSET');
+	const lastToken = tokens[tokens.length - 1];
+
+	if (limit) {
+		let valueIndex = limit.index + 1;
+		if (!tokens[valueIndex]) {
+			return sql;
+		}
+		// MySQL LIMIT offset, count
+		if (tokens[valueIndex + 1]?.value === ',' && tokens[valueIndex + 2]) {
+			valueIndex += 2;
+		}
+		const value = tokens[valueIndex];
+		// An expression (LIMIT 10 + 1000) only starts with a number: anything but OFFSET or a locking clause after it
+		const next = tokens[valueIndex + 1];
+		if (next && !isWord(next, 'OFFSET') && !isWord(next, 'FOR')) {
+			return wrapWithCap(sql, lastToken, cap);
+		}
+		if (value.type === 'number') {
+			return Number(value.value) > cap ? replaceToken(sql, value, String(cap)) : sql;
+		}
+		if (isWord(value, 'ALL') || isWord(value, 'NULL')) {
+			return replaceToken(sql, value, String(cap));
+		}
+		// Placeholder or expression: we cannot know the value, so cap around it
+		return wrapWithCap(sql, lastToken, cap);
+	}
+
+	if (fetch) {
+		// FETCH { FIRST | NEXT } [ n ] { ROW | ROWS } { ONLY | WITH TIES }
+		const value = tokens[fetch.index + 2];
+		if (!value || isWord(value, 'ROW') || isWord(value, 'ROWS')) {
+			return sql; // FETCH FIRST ROW ONLY returns a single row
+		}
+		const next = tokens[fetch.index + 3];
+		if (value.type === 'number' && (isWord(next, 'ROW') || isWord(next, 'ROWS'))) {
+			return Number(value.value) > cap ? replaceToken(sql, value, String(cap)) : sql;
+		}
+		return wrapWithCap(sql, lastToken, cap);
+	}
+
+	// Snowflake TOP n only limits the whole result when there is no set operation
+	const hasSetOperator = topLevel.some(({ token }) => token.type === 'word' && SET_OPERATORS.has(token.value.toUpperCase()));
+	if (dialect === 'snowflake' && !hasSetOperator) {
+		const select = find('SELECT');
+		if (select) {
+			let next = select.index + 1;
+			if (isWord(tokens[next], 'DISTINCT') || isWord(tokens[next], 'ALL')) next++;
+			if (isWord(tokens[next], 'TOP')) {
+				const value = tokens[next + 1];
+				if (value?.type === 'number') {
+					return Number(value.value) > cap ? replaceToken(sql, value, String(cap)) : sql;
+				}
+				return wrapWithCap(sql, lastToken, cap);
+			}
+		}
+	}
+
+	if (offset) {
+		return insertAt(sql, offset.token.start, `LIMIT ${cap} `);
+	}
+
+	// Postgres locking clause (FOR UPDATE / FOR SHARE / FOR NO KEY UPDATE / FOR KEY SHARE) must follow LIMIT
+	if (dialect === 'postgres') {
+		const lock = topLevel.find(({ token, index }) => isWord(token, 'FOR') && tokens[index + 1]?.type === 'word'
+			&& LOCKING_KEYWORDS.has(tokens[index + 1].value.toUpperCase()));
+		if (lock) {
+			return insertAt(sql, lock.token.start, `LIMIT ${cap} `);
+		}
+	}
+
+	return insertAt(sql, lastToken.end, ` LIMIT ${cap}`);
+}
+
+/**
+ * Wrap a query in SELECT * FROM (...) LIMIT 0, so running it compiles the statement (resolving every table,
+ * column and function it names) without reading any rows
+ * @param sql - Single SQL statement
+ * @param dialect - Dialect of the target source
+ * @returns Wrapped SQL, or null if the statement is not a query
+ */
+export function toDryRun(sql: string, dialect: SqlDialect = 'postgres'): string | null {
+	const tokens = sql ? queryTokens(sql, dialect) : null;
+	return tokens ? wrapWithCap(sql, tokens[tokens.length - 1], 0) : null;
+}
@@ -0,0 +1,106 @@
+import { SqlDialect } from '../datasources/types';
+import { Token, tokenize } from './tokenizer';
+
+export type QueryParamValue = string | number | boolean | null;
+
+/**
+ * Positional (array) or named (object) parameters sent with a query
+ */
+export type QueryParams = QueryParamValue[] | Record<string, QueryParamValue>;
+
+export interface BoundQuery {
+	sql: string;
+	values: QueryParamValue[];
+}
+
+function normalizeParamValue(value: any, name: string): QueryParamValue {
+	if (value === null || value === undefined) {
+		return null;
+	}
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+	if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+		return value;
+	}
+	throw new Error(`Parameter ${name} must be a string, number, boolean or null`);
+}
+
+function namedParameter(token: Token): string | null {
+	return token.type === 'parameter' && token.value.startsWith(':') && !/^:\d+$/.test(token.value) ? token.value.slice(1) : null;
+}
+
+// $n, :n, or ? outside Postgres (where ? is a jsonb operator, and the driver only binds $n)
+function isPositionalParameter(token: Token, dialect: SqlDialect): boolean {
+	return token.type === 'parameter' && namedParameter(token) === null && (token.value !== '?' || dialect !== 'postgres');
+}
+
+/**
+ * Prepare a query and its parameters for the driver.
+ * Positional params are passed through ($1.. for Postgres, ? or :1.. for Snowflake).
+ * Named params (:name) are rewritten to the dialect's positional placeholders: $n for Postgres
+ * (a repeated name reuses its number), ? for other dialects (a repeated name repeats its value)
+ * @param sql - SQL text
+ * @param params - Parameters from the request payload
+ * @param dialect - Dialect of the target source
+ * @returns SQL with driver placeholders and the ordered bind values
+ * @throws Error if params are malformed, a named placeholder has no value, the query mixes named and positional
+ * placeholders, or the placeholder style does not match the params (named placeholders need an object, positional ones an array)
+ */
+export function bindParams(sql: string, params: QueryParams | undefined, dialect: SqlDialect): BoundQuery {
+	if (params === undefined || params === null) {
+		return { sql, values: [] };
+	}
+
+	const tokens = tokenize(sql, dialect);
+	const named = tokens.find(token => namedParameter(token) !== null);
+	const positional = tokens.find(token => isPositionalParameter(token, dialect));
+	if (named && positional) {
+		throw new Error(`Named (${named.value}) and positional (${positional.value}) placeholders cannot be mixed in one query`);
+	}
+
+	if (Array.isArray(params)) {
+		if (named) {
+			throw new Error(`Named placeholder ${named.value} needs params as an object, received an array`);
+		}
+		return { sql, values: params.map((value, index) => normalizeParamValue(value, `#${index + 1}`)) };
+	}
+
+	if (typeof params !== 'object') {
+		throw new Error('params must be an array or an object');
+	}
+	if (positional) {
+		throw new Error(`Positional placeholder ${positional.value} needs params as an array, received an object`);
+	}
+
+	const values: QueryParamValue[] = [];
+	const positions = new Map<string, number>();
+	let rewritten = '';
+
+	for (const token of tokens) {
+		const name = namedParameter(token);
+		if (!name) {
+			rewritten += token.value;
+			continue;
+		}
+
+		if (!Object.prototype.hasOwnProperty.call(params, name)) {
+			throw new Error(`Missing value for parameter :${name}`);
+		}
+
+		if (dialect === 'postgres') {
+			let position = positions.get(name);
+			if (position === undefined) {
+				values.push(normalizeParamValue(params[name], name));
+				position = values.length;
+				positions.set(name, position);
+			}
+			rewritten += `$${position}`;
+		} else {
+			values.push(normalizeParamValue(params[name], name));
+			rewritten += '?';
+		}
+	}
+
+	return { sql: rewritten, values };
+}
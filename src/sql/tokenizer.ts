@@ -0,0 +1,188 @@
+import { SqlDialect } from '../datasources/types';
+
+export type TokenType =
+	| 'word'
+	| 'quoted_identifier'
+	| 'string'
+	| 'number'
+	| 'parameter'
+	| 'comment'
+	| 'whitespace'
+	| 'punctuation'
+	| 'operator';
+
+export interface Token {
+	type: TokenType;
+	value: string;
+	start: number;
+	end: number;
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const PUNCTUATION = new Set(['(', ')', ',', ';', '.', '[', ']', '{', '}']);
+
+// Dialects whose every '...' string takes backslash escapes. Postgres (standard_conforming_strings) and DuckDB
+// only read them in E'...' strings; SQLite never does
+const BACKSLASH_STRINGS = new Set<SqlDialect>(['snowflake', 'mysql']);
+const ESCAPE_STRINGS = new Set<SqlDialect>(['postgres', 'duckdb']);
+
+/**
+ * Whether a string token is read with backslash escapes in the dialect, i.e. whether \' inside it is a quote or its end
+ */
+export function hasBackslashEscapes(token: Token, dialect: SqlDialect): boolean {
+	return token.type === 'string' && (
+		(BACKSLASH_STRINGS.has(dialect) && token.value.startsWith("'"))
+		|| (ESCAPE_STRINGS.has(dialect) && /^[eE]'/.test(token.value))
+	);
+}
+
+function readQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean = false): number {
+	let i = start + 1;
+	while (i < sql.length) {
+		if (sql[i] === quote) {
+			// Doubled quote is an escaped quote
+			if (sql[i + 1] === quote) {
+				i += 2;
+				continue;
+			}
+			return i + 1;
+		}
+		if (sql[i] === '\\' && backslashEscapes) {
+			i += 2;
+			continue;
+		}
+		i++;
+	}
+	return sql.length;
+}
+
+function readBlockComment(sql: string, start: number): number {
+	let depth = 0;
+	let i = start;
+	while (i < sql.length) {
+		if (sql.startsWith('/*', i)) {
+			depth++;
+			i += 2;
+		} else if (sql.startsWith('*/', i)) {
+			depth--;
+			i += 2;
+			if (depth === 0) {
+				return i;
+			}
+		} else {
+			i++;
+		}
+	}
+	return sql.length;
+}
+
+/**
+ * Split SQL text into tokens without losing any characters, so the original text can be
+ * rebuilt by concatenating token values. Understands string literals, quoted identifiers,
+ * dollar-quoted bodies, line and (nested) block comments and bind placeholders ($1, ?, :name)
+ * @param sql - SQL text
+ * @param dialect - Decides where a backslash escapes the next character in a string (see hasBackslashEscapes)
+ * @returns Tokens in source order
+ */
+export function tokenize(sql: string, dialect: SqlDialect = 'postgres'): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	const push = (type: TokenType, end: number) => {
+		tokens.push({ type, value: sql.slice(i, end), start: i, end });
+		i = end;
+	};
+
+	while (i < sql.length) {
+		const ch = sql[i];
+		const next = sql[i + 1];
+
+		if (/\s/.test(ch)) {
+			let end = i + 1;
+			while (end < sql.length && /\s/.test(sql[end])) end++;
+			push('whitespace', end);
+		} else if ((ch === '-' && next === '-') || (ch === '/' && next === '/')) {
+			let end = sql.indexOf('\n', i);
+			push('comment', end === -1 ? sql.length : end);
+		} else if (ch === '/' && next === '*') {
+			push('comment', readBlockComment(sql, i));
+		} else if (ch === "'") {
+			push('string', readQuoted(sql, i, "'", BACKSLASH_STRINGS.has(dialect)));
+		} else if ((ch === 'E' || ch === 'e') && next === "'" && ESCAPE_STRINGS.has(dialect)) {
+			push('string', readQuoted(sql, i + 1, "'", true));
+		} else if (ch === '"' || ch === '`') {
+			push('quoted_identifier', readQuoted(sql, i, ch));
+		} else if (ch === '$') {
+			const dollarTag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+			const positional = /^\$\d+/.exec(sql.slice(i));
+			if (positional) {
+				push('parameter', i + positional[0].length);
+			} else if (dollarTag) {
+				const close = sql.indexOf(dollarTag[0], i + dollarTag[0].length);
+				push('string', close === -1 ? sql.length : close + dollarTag[0].length);
+			} else {
+				push('operator', i + 1);
+			}
+		} else if (ch === '?') {
+			push('parameter', i + 1);
+		} else if (ch === ':' && next === ':') {
+			push('operator', i + 2);
+		} else if (ch === ':' && next !== undefined && /[A-Za-z_0-9]/.test(next) && !/[A-Za-z0-9_$"\])]/.test(sql[i - 1] || '')) {
+			// :name is a named bind; col:path (no space before the colon) is a Snowflake semi-structured path
+			let end = i + 1;
+			while (end < sql.length && /[A-Za-z0-9_]/.test(sql[end])) end++;
+			push('parameter', end);
+		} else if (/[0-9]/.test(ch) || (ch === '.' && next !== undefined && /[0-9]/.test(next))) {
+			const match = /^(\d*\.?\d+|\d+\.)([eE][+-]?\d+)?/.exec(sql.slice(i));
+			push('number', i + (match ? match[0].length : 1));
+		} else if (WORD_START.test(ch)) {
+			let end = i + 1;
+			while (end < sql.length && WORD_PART.test(sql[end])) end++;
+			push('word', end);
+		} else if (PUNCTUATION.has(ch)) {
+			push('punctuation', i + 1);
+		} else {
+			push('operator', i + 1);
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Tokens that carry meaning (no whitespace or comments)
+ */
+export function significantTokens(tokens: Token[]): Token[] {
+	return tokens.filter(token => token.type !== 'whitespace' && token.type !== 'comment');
+}
+
+/**
+ * Split SQL into statements on top-level semicolons.
+ * Empty statements (e.g. after a trailing semicolon, or only comments) are dropped
+ * @param sql - SQL text
+ * @param dialect - Dialect the text is written in (see tokenize)
+ * @returns Statement texts, without their terminating semicolons
+ */
+export function splitStatements(sql: string, dialect: SqlDialect = 'postgres'): string[] {
+	const statements: string[] = [];
+	let current: Token[] = [];
+
+	const flush = () => {
+		if (significantTokens(current).length > 0) {
+			statements.push(current.map(token => token.value).join('').trim());
+		}
+		current = [];
+	};
+
+	for (const token of tokenize(sql, dialect)) {
+		if (token.type === 'punctuation' && token.value === ';') {
+			flush();
+		} else {
+			current.push(token);
+		}
+	}
+	flush();
+
+	return statements;
+}
@@ -0,0 +1,160 @@
+import {
+	Attributes,
+	Context,
+	Span,
+	SpanKind,
+	SpanStatusCode,
+	context,
+	propagation,
+	trace
+} from '@opentelemetry/api';
+import { NodeTracerProvider, BatchSpanProcessor } from '@opentelemetry/sdk-trace-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import dotenv from 'dotenv';
+import { observeLlmCall } from '../metrics';
+
+dotenv.config();
+
+export { SpanKind };
+
+/** W3C trace context carried on a runtime message (same fields as the HTTP headers) */
+export interface TraceCarrier {
+	traceparent?: string;
+	tracestate?: string;
+}
+
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Export spans over OTLP/HTTP when OTEL_EXPORTER_OTLP_ENDPOINT (or OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) is set.
+ * The exporter reads the standard OTEL_EXPORTER_OTLP_* variables (headers, timeout, ...).
+ * Without an endpoint, or with OTEL_SDK_DISABLED=true, spans are no-ops
+ * @returns true when an exporter was installed
+ */
+export function initTracing(): boolean {
+	const endpoint = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+	if (provider || !endpoint || process.env.OTEL_SDK_DISABLED === 'true') {
+		return !!provider;
+	}
+
+	provider = new NodeTracerProvider({
+		resource: resourceFromAttributes({
+			[ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || 'data-agent',
+			[ATTR_SERVICE_VERSION]: process.env.npm_package_version || 'unknown'
+		}),
+		spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())]
+	});
+	// Installs the AsyncLocalStorage context manager and the W3C trace context propagator
+	provider.register();
+	return true;
+}
+
+/**
+ * Flush pending spans and stop exporting
+ */
+export async function shutdownTracing(): Promise<void> {
+	const current = provider;
+	provider = null;
+	await current?.shutdown();
+}
+
+const tracer = trace.getTracer('data-agent');
+
+/**
+ * Run fn inside a new active span. The span records a thrown error and ends when fn settles
+ * @param name - Span name
+ * @param options.attributes - Initial attributes
+ * @param options.kind - Defaults to INTERNAL
+ * @param options.parent - Parent context (defaults to the active one)
+ */
+export function withSpan<T>(
+	name: string,
+	options: { attributes?: Attributes; kind?: SpanKind; parent?: Context },
+	fn: (span: Span) => Promise<T>
+): Promise<T> {
+	return tracer.startActiveSpan(name, { attributes: options.attributes, kind: options.kind }, options.parent ?? context.active(), async span => {
+		try {
+			return await fn(span);
+		} catch (error) {
+			recordFailure(span, error);
+			throw error;
+		} finally {
+			span.end();
+		}
+	});
+}
+
+const recordFailure = (span: Span, error: unknown): void => {
+	span.recordException(error instanceof Error ? error : String(error));
+	span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+};
+
+/**
+ * Mark a span as failed without an exception (e.g. a result envelope with success: false)
+ */
+export function markSpanFailed(span: Span, message?: string): void {
+	span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+/**
+ * Mark the active span as failed, recording the error when one is given
+ * @param reason - Thrown error, or a short description such as a response outcome
+ */
+export function failActiveSpan(reason: unknown): void {
+	const span = trace.getActiveSpan();
+	if (!span) {
+		return;
+	}
+	if (reason instanceof Error) {
+		recordFailure(span, reason);
+	} else {
+		markSpanFailed(span, String(reason));
+	}
+}
+
+/**
+ * Parent context from a W3C carrier (message trace field or HTTP headers); the active context when absent
+ */
+export function extractTraceContext(carrier: TraceCarrier | Record<string, unknown> | undefined): Context {
+	return carrier ? propagation.extract(context.active(), carrier) : context.active();
+}
+
+/**
+ * Trace and span id of the active span, for log correlation
+ */
+export function activeTraceIds(): { traceId: string; spanId: string } | undefined {
+	const spanContext = trace.getActiveSpan()?.spanContext();
+	if (!spanContext || !trace.isSpanContextValid(spanContext)) {
+		return undefined;
+	}
+	return { traceId: spanContext.traceId, spanId: spanContext.spanId };
+}
+
+/**
+ * Span, metrics and token counts for one LLM API call
+ * @param provider - e.g. 'groq', 'anthropic'
+ * @param model - Model the call was sent to
+ * @param call - The API call
+ * @param usage - Reads input/output token counts from the response
+ */
+export function traceLlmCall<T>(
+	provider: string,
+	model: string,
+	call: () => Promise<T>,
+	usage: (response: T) => { input?: number; output?: number }
+): Promise<T> {
+	return withSpan(`chat ${model}`, {
+		kind: SpanKind.CLIENT,
+		attributes: { 'gen_ai.system': provider, 'gen_ai.operation.name': 'chat', 'gen_ai.request.model': model }
+	}, async span => {
+		const response = await observeLlmCall(provider, model, call, usage);
+		const tokens = usage(response);
+		span.setAttributes({
+			'gen_ai.usage.input_tokens': tokens.input,
+			'gen_ai.usage.output_tokens': tokens.output
+		});
+		return response;
+	});
+}
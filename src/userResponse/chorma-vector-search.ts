@@ -1,23 +1,36 @@
 import CHROMACOLLECTION from "../chromadb/collections";
-import { validateAndModifyQuery } from "./groq-client";
+import { describeConversation, validateAndModifyQuery } from "./pipeline";
 import { Component } from "./types";
-import Groq from 'groq-sdk';
-import dotenv from 'dotenv';
-
-dotenv.config();
-
-const groq = new Groq({
-    apiKey: process.env.GROQ_API_KEY
+import LLM_PROVIDERS, { OutputSchema } from '../llm';
+import logger from '../logger';
+import { withSpan } from '../tracing';
+import { ConversationTurn } from '../conversations';
+
+const rerankSchema = (components: Component[]): OutputSchema => ({
+    fields: {
+        componentIndex: { kind: 'number', required: true, integer: true, min: 1, max: components.length },
+        reasoning: { kind: 'string' }
+    }
 });
 
 // Re-rank components using LLM to select the best match
-async function rerankComponents(userPrompt: string, components: Component[]): Promise<{ component: Component; reasoning: string }> {
+async function rerankComponents(
+    userPrompt: string,
+    components: Component[],
+    history: ConversationTurn[]
+): Promise<{ component: Component; reasoning: string }> {
     const componentsText = components
         .map((comp, idx) => `${idx + 1}. ${comp.name} (${comp.type}): ${comp.description}`)
         .join('\n');
+    const conversation = history.length > 0 ? `
+Conversation so far (oldest first):
+${describeConversation(history)}
 
-    const systemPrompt = `You are an AI assistant that selects the best matching component from a ranked list.
+The request may be a follow-up to the conversation (e.g. "only for 1995"): read it together with the earlier prompts.
+` : '';
 
+    const systemPrompt = `You are an AI assistant that selects the best matching component from a ranked list.
+${conversation}
 User request: "${userPrompt}"
 
 Top ${components.length} candidates (ordered by vector similarity):
@@ -37,43 +50,42 @@ Respond with a JSON object:
   "reasoning": "<brief explanation>"
 }`;
 
-    const chatCompletion = await groq.chat.completions.create({
-        messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: 'Select the best component' }
-        ],
-        model: 'openai/gpt-oss-120b',
+    const { result } = await LLM_PROVIDERS.completeJson('rerank', {
+        system: systemPrompt,
+        messages: [{ role: 'user', content: 'Select the best component' }],
         temperature: 0.1,
-        max_tokens: 500, // Increased to handle full descriptions
-        response_format: { type: 'json_object' }
-    });
-
-    const result = JSON.parse(chatCompletion.choices[0]?.message?.content || '{}');
-    const index = result.componentIndex - 1;
+        maxTokens: 500 // Increased to handle full descriptions
+    }, rerankSchema(components));
 
     return {
-        component: components[index] || components[0],
+        component: components[result.componentIndex - 1],
         reasoning: result.reasoning || 'Selected based on semantic similarity'
     };
 }
 
+/**
+ * Find the component for a prompt by vector search, re-rank the candidates and adapt the component's query.
+ * With history, the earlier prompts are searched along with this one, so a follow-up finds what it refines
+ * @param history - Earlier turns of the conversation, oldest first
+ */
 export async function matchComponentFromChromaDB(
     userPrompt: string,
     collectionName: string,
-    topK: number = 5
+    topK: number = 5,
+    history: ConversationTurn[] = []
 ): Promise<{ component: Component | null; reasoning: string; queryModified?: boolean; queryReasoning?: string; method: string }> {
     try {
-        console.log(`Searching ChromaDB for matching components (top ${topK})...`);
+        logger.debug('Searching ChromaDB for matching components', { topK });
 
         // Query ChromaDB for similar components
         const matchingComponents = await CHROMACOLLECTION.queryComponents(
             collectionName,
-            userPrompt,
+            [...history.map(turn => turn.prompt), userPrompt].join('\n'),
             topK
         );
 
         if (matchingComponents.length === 0) {
-            console.log('No matching components found in ChromaDB');
+            logger.info('No matching components found in ChromaDB');
             return {
                 component: null,
                 reasoning: 'No matching components found in the database',
@@ -82,26 +94,30 @@ export async function matchComponentFromChromaDB(
         }
 
         // Use LLM to re-rank and select the best component from top-K results
-        console.log(`Re-ranking top ${matchingComponents.length} components using LLM...`);
-        const { component: selectedComponent, reasoning: rerankReasoning } = await rerankComponents(userPrompt, matchingComponents);
+        logger.debug('Re-ranking components using LLM', { candidates: matchingComponents.length });
+        const { component: selectedComponent, reasoning: rerankReasoning } = await rerankComponents(userPrompt, matchingComponents, history);
 
         let component = selectedComponent;
         const reasoning = `Vector search found ${matchingComponents.length} candidates. ${rerankReasoning}`;
 
-        console.log('Final selected component:', component.name);
+        logger.info('Selected component', { component: component.name });
 
         // If component has a query in props, validate and modify it if needed
         let queryModified = false;
         let queryReasoning = '';
 
         if (component && component.props?.query) {
-            console.log('Component has a query, validating against user request...');
-            const queryValidation = await validateAndModifyQuery(
+            logger.debug('Component has a query, validating against user request');
+            const { name, description, props: { query } } = component;
+            const queryValidation = await withSpan('prompt.validate_query', {
+                attributes: { 'prompt.component': name }
+            }, () => validateAndModifyQuery(
                 userPrompt,
-                component.props.query,
-                component.name,
-                component.description
-            );
+                query,
+                name,
+                description,
+                history
+            ));
 
             // Create a new component object with the potentially modified query
             component = {
@@ -115,7 +131,7 @@ export async function matchComponentFromChromaDB(
             queryModified = queryValidation.isModified;
             queryReasoning = queryValidation.reasoning;
 
-            console.log(`Query ${queryModified ? 'modified' : 'unchanged'}: ${queryReasoning}`);
+            logger.info(`Query ${queryModified ? 'modified' : 'unchanged'}`, { reasoning: queryReasoning });
         }
 
         return {
@@ -126,7 +142,7 @@ export async function matchComponentFromChromaDB(
             method: 'chromadb-vector-search'
         };
     } catch (error) {
-        console.error('Error matching component with ChromaDB:', error);
+        logger.error('Error matching component with ChromaDB', { error });
         throw error;
     }
 }
\ No newline at end of file
@@ -1,14 +1,54 @@
 import CHROMACOLLECTION from "../chromadb/collections";
-import { WebSocketMessage } from "../websocket/types";
+import { LLMOutputFailurePayload, UserPromptResMessage, UserPromptResult } from "../websocket/types";
 import { matchComponentFromChromaDB } from "./chorma-vector-search";
-import { handleUserRequest, matchComponentFromGroq } from "./groq-client";
-import { matchComponentFromAnthropic } from "./anthropic-client";
-import { Component } from "./types";
+import { handleUserRequest, matchComponent } from "./pipeline";
+import { Component, ProgressCallback } from "./types";
+import logger from "../logger";
+import { LLMOutputError } from "../llm";
+import { markSpanFailed, withSpan } from "../tracing";
+import CONVERSATIONS, { DEFAULT_THREAD_ID } from "../conversations";
+
+// failure is set when the model output was invalid, so callers can report the step and issues instead of a plain message
+type UserResponseResult = {success: true, response: UserPromptResMessage} | {success: false, reason: string, failure?: LLMOutputFailurePayload};
+
+/**
+ * Answer a user prompt with a component
+ * @param user - Runtime user the prompt belongs to; when given, the prompt continues the thread named by
+ * data.payload.threadId (default: "default") and is recorded in it. Without it every prompt stands alone
+ */
+export const get_user_response = (
+    data:any,
+    components: Component[],
+    onProgress: ProgressCallback = () => {},
+    user?: string
+): Promise<UserResponseResult> => {
+    // Parent span of the classify/match/generate/validate stages and the LLM, vector and SQL calls below
+    return withSpan('prompt', { attributes: { 'prompt.id': data.id || 'unknown' } }, async span => {
+        const result = await respond(data, components, onProgress, user);
+        if (result.success) {
+            const payload = result.response.payload as UserPromptResult;
+            span.setAttributes({
+                'prompt.method': payload.method,
+                'prompt.component': payload.component?.name
+            });
+        } else {
+            markSpanFailed(span, result.reason);
+        }
+        return result;
+    });
+}
 
-export const get_user_response = async (data:any, components: Component[]) => {
+const respond = async (
+    data:any,
+    components: Component[],
+    onProgress: ProgressCallback,
+    user?: string
+): Promise<UserResponseResult> => {
 
     const id = data.id || 'unknown';
     const prompt = data.payload?.prompt || '';
+    const threadId: string = data.payload?.threadId || DEFAULT_THREAD_ID;
+    const history = user ? CONVERSATIONS.history(user, threadId) : [];
 
     try {
         if (!prompt || prompt.trim().length === 0) {
@@ -19,29 +59,30 @@ export const get_user_response = async (data:any, components: Component[]) => {
         // Get matching method from environment variable (default: 'chromadb')
         const matchingMethod = process.env.COMPONENT_MATCHING_METHOD || 'chromadb';
         let matchResult:any;
+        logger.info('Handling user prompt', { prompt, method: matchingMethod, threadId: user ? threadId : undefined, turns: history.length });
 
-        if (matchingMethod === 'groq') {
-            // Method 1: Use Groq LLM to match from in-memory components
-            console.log('Using Groq LLM matching method...');
+        if (matchingMethod === 'llm' || matchingMethod === 'groq') {
+            // Method 1: Classify the question, then generate or match from in-memory components ('groq' is the old name)
+            logger.debug('Using LLM pipeline matching method');
 
             if (components.length === 0) {
                 return {success: false, reason: 'Components not loaded in memory. Please ensure components are fetched first.'};
             }
 
-            // matchResult = await matchComponentFromGroq(prompt, components);
-            matchResult = await handleUserRequest(prompt, components);
+            matchResult = await handleUserRequest(prompt, components, onProgress, history);
         } else if (matchingMethod === 'anthropic') {
-            // Method 2: Use Anthropic Claude to match from in-memory components
-            console.log('Using Anthropic Claude matching method...');
+            // Method 2: Match from in-memory components without classification, asking Anthropic Claude first
+            logger.debug('Using Anthropic-first matching method');
+            onProgress('matching_component', 'Matching component');
 
             if (components.length === 0) {
                 return {success: false, reason: 'Components not loaded in memory. Please ensure components are fetched first.'};
             }
 
-            matchResult = await matchComponentFromAnthropic(prompt, components);
+            matchResult = await matchComponent(prompt, components, { prefer: 'anthropic', history });
         } else {
             // Method 3: Use ChromaDB vector search
-            console.log('Using ChromaDB vector search matching method...');
+            logger.debug('Using ChromaDB vector search matching method');
 
             try {
                 const projectId = process.env.PROJECT_ID || '';
@@ -54,22 +95,26 @@ export const get_user_response = async (data:any, components: Component[]) => {
                     return {success: false, reason: `ChromaDB collection "${collectionName}" does not exist.`};
                 }
 
-                matchResult = await matchComponentFromChromaDB(prompt, collectionName, 5);
+                onProgress('searching_components', 'Searching components');
+                matchResult = await matchComponentFromChromaDB(prompt, collectionName, 5, history);
             } catch (chromaError) {
-                // Fallback to Groq method if ChromaDB fails (can also fallback to Anthropic if preferred)
-                console.error('⚠️  ChromaDB error, falling back to Groq LLM method:', (chromaError as Error).message);
+                // Invalid model output is not a ChromaDB failure; report it rather than answering another way
+                if (chromaError instanceof LLMOutputError) {
+                    throw chromaError;
+                }
+                // Fallback to the LLM pipeline if ChromaDB fails
+                logger.warn('ChromaDB error, falling back to LLM pipeline method', { error: (chromaError as Error).message });
 
                 if (components.length === 0) {
                     // throw new Error('ChromaDB unavailable and components not loaded in memory. Cannot process request.');
                     return {success: false, reason: 'ChromaDB unavailable and components not loaded in memory. Cannot process request.'};
                 }
 
-                // matchResult = await matchComponentFromGroq(prompt, components);
-                matchResult = await handleUserRequest(prompt, components);
+                matchResult = await handleUserRequest(prompt, components, onProgress, history);
             }
         }
 
-        const response: WebSocketMessage = {
+        const response: UserPromptResMessage = {
             id: id,
             type: 'user_prompt_res',
             from: {
@@ -86,21 +131,40 @@ export const get_user_response = async (data:any, components: Component[]) => {
                 queryReasoning: matchResult.queryReasoning,
                 propsModified: matchResult.propsModified,
                 propsModifications: matchResult.propsModifications,
-                method: matchResult.method
+                method: matchResult.method,
+                threadId: user ? threadId : undefined
             }
         };
 
-        console.log(`✓ Sent user prompt response with matched component (${matchResult.method}):`, matchResult.component?.name);
-        if (matchResult.queryModified) {
-            console.log('  ✓ Query was modified:', matchResult.queryReasoning);
-        }
-        if (matchResult.propsModified && matchResult.propsModifications) {
-            console.log('  ✓ Props were modified:', matchResult.propsModifications.join(', '));
+        if (user) {
+            CONVERSATIONS.record(user, threadId, {
+                requestId: id,
+                prompt,
+                component: matchResult.component,
+                method: matchResult.method,
+                reasoning: matchResult.reasoning,
+                at: new Date().toISOString()
+            });
         }
+
+        logger.info('Built user prompt response', {
+            method: matchResult.method,
+            component: matchResult.component?.name,
+            queryModified: !!matchResult.queryModified,
+            queryReasoning: matchResult.queryModified ? matchResult.queryReasoning : undefined,
+            propsModifications: matchResult.propsModified ? matchResult.propsModifications : undefined
+        });
         return {success: true, response: response};
 
     } catch (error) {
-        console.error('Error handling user prompt:', error);
+        logger.error('Error handling user prompt', { error });
+        if (error instanceof LLMOutputError) {
+            return {
+                success: false,
+                reason: error.message,
+                failure: { success: false, error: 'llm_output_invalid', errors: [error.message], step: error.step, issues: error.issues }
+            };
+        }
         return {success: false, reason: error instanceof Error ? error.message : 'Unknown error'};
     }
 }
\ No newline at end of file
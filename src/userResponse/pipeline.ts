@@ -1,29 +1,202 @@
-import Groq from 'groq-sdk';
-import dotenv from 'dotenv';
-import CHROMACOLLECTION from '../chromadb/collections';
-
-import { Component } from './types';
+import { Component, ProgressCallback, QueryCheck } from './types';
 import { generateSchemaDocumentation, ensureQueryLimit } from './utils';
+import LLM_PROVIDERS, { LLMMessage, LLMOutputError, LLMOutputIssue, OutputFieldRule, OutputSchema, validateOutput } from '../llm';
+import DATASOURCES from '../datasources/registry';
+import { SqlDialect } from '../datasources/types';
+import { runQuery } from '../datasources/query-runner';
+import { generatedQueries } from '../metrics';
+import logger from '../logger';
+import { markSpanFailed, withSpan } from '../tracing';
+import { ConversationTurn } from '../conversations';
+
+// Each step below goes through LLM_PROVIDERS.completeJson, which tries the step's provider chain in order and
+// asks the model to repair output that does not match the step's schema. Output that is still invalid after the
+// repairs surfaces as an LLMOutputError instead of falling back to defaults (which could mean a wrong component)
+
+const DEFAULT_LIMIT = 50;
 
-dotenv.config();
+const VISUALIZATION_TYPES = ['KPICard', 'BarChart', 'LineChart', 'PieChart', 'DataTable'];
 
-const groq = new Groq({
-	apiKey: process.env.GROQ_API_KEY
+// How each dialect is named in prompts
+const DIALECT_NAMES: Record<SqlDialect, string> = {
+	postgres: 'PostgreSQL',
+	snowflake: 'Snowflake',
+	mysql: 'MySQL',
+	sqlite: 'SQLite',
+	duckdb: 'DuckDB'
+};
+
+/**
+ * Dialect generated queries are written in: that of GENERATED_QUERY_SOURCE, or snowflake while the source is not registered
+ */
+const generatedQueryDialect = (): SqlDialect => {
+	return DATASOURCES.get(process.env.GENERATED_QUERY_SOURCE || 'snowflake')?.dialect || 'snowflake';
+};
+
+const CLASSIFY_SCHEMA: OutputSchema = {
+	fields: {
+		questionType: { kind: 'string', required: true, oneOf: ['analytical', 'data_modification', 'general'] },
+		visualizations: { kind: 'array', required: true, items: { kind: 'string', oneOf: VISUALIZATION_TYPES } },
+		reasoning: { kind: 'string' },
+		needsMultipleComponents: { kind: 'boolean', required: true },
+		refinesPrevious: { kind: 'boolean' }
+	}
+};
+
+const propsSchema = (originalProps: any): OutputSchema => ({
+	fields: {
+		props: {
+			kind: 'object',
+			required: true,
+			fields: {
+				query: { kind: 'string', nonEmpty: true },
+				params: { kind: ['object', 'array'] },
+				title: { kind: 'string' },
+				description: { kind: 'string' },
+				config: { kind: 'object' }
+			}
+		},
+		isModified: { kind: 'boolean', required: true },
+		reasoning: { kind: 'string' },
+		modifications: { kind: 'array', items: { kind: 'string' } }
+	},
+	// The complete props are expected back, so a component with a query must keep one
+	check: result => originalProps?.query && !result.props.query
+		? [{ path: 'props.query', message: 'is required (return the complete props, including the query)' }]
+		: []
 });
 
-const DEFAULT_LIMIT = 50;
+const QUERY_SCHEMA: OutputSchema = {
+	fields: {
+		query: { kind: 'string', required: true, nonEmpty: true },
+		isModified: { kind: 'boolean', required: true },
+		reasoning: { kind: 'string' }
+	}
+};
+
+const REPAIR_QUERY_SCHEMA: OutputSchema = {
+	fields: {
+		query: { kind: 'string', required: true, nonEmpty: true },
+		params: { kind: ['object', 'array'] },
+		reasoning: { kind: 'string' }
+	}
+};
+
+const COMPONENT_SPEC_FIELDS: Record<string, OutputFieldRule> = {
+	componentType: { kind: 'string', required: true, oneOf: VISUALIZATION_TYPES },
+	query: { kind: 'string', required: true, nonEmpty: true },
+	params: { kind: ['object', 'array'] },
+	title: { kind: 'string', required: true, nonEmpty: true },
+	description: { kind: 'string' },
+	config: { kind: 'object' }
+};
+
+// The component fields are only required when the model says it can answer
+const generateSchema = (preferredVisualizationType?: string): OutputSchema => ({
+	fields: {
+		canGenerate: { kind: 'boolean', required: true },
+		reasoning: { kind: 'string' }
+	},
+	check: result => {
+		if (!result.canGenerate) {
+			return [];
+		}
+		const issues = validateOutput(result, { fields: COMPONENT_SPEC_FIELDS });
+		if (issues.length === 0 && preferredVisualizationType && result.componentType !== preferredVisualizationType) {
+			issues.push({ path: 'componentType', message: `must be ${preferredVisualizationType} as requested` });
+		}
+		return issues;
+	}
+});
+
+const GENERATE_MULTI_SCHEMA: OutputSchema = {
+	fields: {
+		canGenerate: { kind: 'boolean', required: true },
+		containerTitle: { kind: 'string' },
+		containerDescription: { kind: 'string' },
+		components: { kind: 'array', items: { kind: 'object', fields: COMPONENT_SPEC_FIELDS } },
+		reasoning: { kind: 'string' }
+	},
+	check: result => {
+		const issues: LLMOutputIssue[] = [];
+		if (result.canGenerate && (!result.components || result.components.length === 0)) {
+			issues.push({ path: 'components', message: 'must list at least one component when canGenerate is true' });
+		}
+		if (result.canGenerate && !result.containerTitle) {
+			issues.push({ path: 'containerTitle', message: 'is required when canGenerate is true' });
+		}
+		return issues;
+	}
+};
+
+// Indexes are 1-based; an id must name a listed component and agree with the index when both are given
+const matchSchema = (components: Component[]): OutputSchema => ({
+	fields: {
+		componentIndex: { kind: ['number', 'null'], integer: true, min: 1, max: components.length },
+		componentId: { kind: ['string', 'null'] },
+		reasoning: { kind: 'string' },
+		confidence: { kind: 'number', required: true, min: 0, max: 100 },
+		alternativeMatches: {
+			kind: 'array',
+			items: { kind: 'object', fields: { index: { kind: 'number', integer: true, min: 1, max: components.length } } }
+		}
+	},
+	check: result => {
+		if (!result.componentId) {
+			return [];
+		}
+		const byId = components.find(component => component.id === result.componentId);
+		if (!byId) {
+			return [{ path: 'componentId', message: `"${result.componentId}" is not one of the listed component ids` }];
+		}
+		if (result.componentIndex && components[result.componentIndex - 1] !== byId) {
+			return [{ path: 'componentIndex', message: `component ${result.componentIndex} is not "${result.componentId}"` }];
+		}
+		return [];
+	}
+});
+
+/**
+ * Earlier turns of a conversation as prompt text: each prompt with the component it was answered with,
+ * including the SQL and params (of every inner component for a multi-component container)
+ */
+export function describeConversation(history: ConversationTurn[]): string {
+	return history.map((turn, index) => {
+		const lines = [`${index + 1}. User: "${turn.prompt}"`];
+		const component = turn.component;
+		if (!component) {
+			lines.push('   Answer: no component');
+			return lines.join('\n');
+		}
+
+		const title = component.props?.title || component.props?.config?.title || component.name;
+		lines.push(`   Answer: ${component.type} "${title}"`);
+		const inner: Component[] = Array.isArray(component.props?.config?.components) ? component.props.config.components : [component];
+		for (const child of inner) {
+			if (child.props?.query) {
+				lines.push(`   Query${inner.length > 1 ? ` (${child.type})` : ''}: ${child.props.query}`);
+				if (child.props.params && Object.keys(child.props.params).length > 0) {
+					lines.push(`   Params: ${JSON.stringify(child.props.params)}`);
+				}
+			}
+		}
+		return lines.join('\n');
+	}).join('\n');
+}
 
-const GROQ_MODEL = 'openai/gpt-oss-120b';
 /**
  * Classify user question to determine the type and required visualizations
+ * @param history - Earlier turns of the conversation; with it, follow-ups to the last answer are flagged as refinesPrevious
  */
 export async function classifyUserQuestion(
-	userPrompt: string
+	userPrompt: string,
+	history: ConversationTurn[] = []
 ): Promise<{
 	questionType: 'analytical' | 'data_modification' | 'general';
 	visualizations: string[];
 	reasoning: string;
 	needsMultipleComponents: boolean;
+	refinesPrevious: boolean;
 }> {
 	const schemaDoc = generateSchemaDocumentation();
 
@@ -111,42 +284,45 @@ User: "Show revenue by region as a bar chart"
 Output: {"questionType": "analytical", "visualizations": ["BarChart"], "reasoning": "User explicitly requests bar chart for categorical comparison", "needsMultipleComponents": false}
 
 User: "Update customer email to john@example.com"
-Output: {"questionType": "data_modification", "visualizations": [], "reasoning": "User wants to modify data", "needsMultipleComponents": false}`;
-
-		const chatCompletion = await groq.chat.completions.create({
-			messages: [
-				{
-					role: 'system',
-					content: systemPrompt
-				},
-				{
-					role: 'user',
-					content: `User question: "${userPrompt}"\n\nClassify this question and determine required visualizations.`
-				}
-			],
-			model: GROQ_MODEL,
+Output: {"questionType": "data_modification", "visualizations": [], "reasoning": "User wants to modify data", "needsMultipleComponents": false}${history.length > 0 ? `
+
+**Follow-up Questions:**
+The user is in a conversation; earlier questions and the components that answered them are listed with the question.
+- Set "refinesPrevious" to true when the question refines the LAST answer: it adds or changes a filter, time range,
+  grouping, sort order or limit, or refers to it ("that", "those", "it").
+  Examples: "now break that down by region", "only for 1995", "show the top 5 instead"
+- Set "refinesPrevious" to false for a new, self-contained question
+- For a follow-up, still return the questionType and visualizations the refined answer needs` : ''}`;
+
+		const { result } = await LLM_PROVIDERS.completeJson('classify', {
+			system: systemPrompt,
+			messages: [{
+				role: 'user',
+				content: `${history.length > 0 ? `Conversation so far (oldest first):\n${describeConversation(history)}\n\n` : ''}User question: "${userPrompt}"\n\nClassify this question and determine required visualizations.`
+			}],
 			temperature: 0.2,
-			max_tokens: 800,
-			response_format: { type: 'json_object' }
-		});
-
-		const responseText = chatCompletion.choices[0]?.message?.content || '{}';
-		const result = JSON.parse(responseText);
+			maxTokens: 800
+		}, CLASSIFY_SCHEMA);
 
 		return {
-			questionType: result.questionType || 'general',
-			visualizations: result.visualizations || [],
+			questionType: result.questionType,
+			visualizations: result.visualizations,
 			reasoning: result.reasoning || 'No reasoning provided',
-			needsMultipleComponents: result.needsMultipleComponents || false
+			needsMultipleComponents: result.needsMultipleComponents,
+			refinesPrevious: history.length > 0 && result.refinesPrevious === true
 		};
 	} catch (error) {
-		console.error('Error classifying user question:', error);
+		if (error instanceof LLMOutputError) {
+			throw error;
+		}
+		logger.error('Error classifying user question', { error });
 		// Default to analytical with no specific visualization preference
 		return {
 			questionType: 'analytical',
 			visualizations: [],
 			reasoning: 'Error occurred during classification',
-			needsMultipleComponents: false
+			needsMultipleComponents: false,
+			refinesPrevious: false
 		};
 	}
 }
@@ -154,13 +330,17 @@ Output: {"questionType": "data_modification", "visualizations": [], "reasoning":
 /**
  * Enhanced function that validates and modifies the entire props object based on user request
  * This includes query, title, description, and config properties
+ * @param history - Earlier turns of the conversation, so the request can refer to them
+ * @param dialect - Dialect of the query in the props (default: that of GENERATED_QUERY_SOURCE)
  */
 export async function validateAndModifyProps(
 	userPrompt: string,
 	originalProps: any,
 	componentName: string,
 	componentType: string,
-	componentDescription?: string
+	componentDescription?: string,
+	history: ConversationTurn[] = [],
+	dialect: SqlDialect = generatedQueryDialect()
 ): Promise<{ props: any; isModified: boolean; reasoning: string; modifications: string[] }> {
 
 	const schemaDoc = generateSchemaDocumentation();
@@ -177,6 +357,7 @@ Given:
 - Current component props with structure:
   {
     query?: string,        // SQL query to fetch data
+    params?: object,       // Values for the :name placeholders used in query
     title?: string,        // Component title
     description?: string,  // Component description
     config?: {            // Additional configuration
@@ -191,8 +372,10 @@ Your task is to intelligently modify the props based on the user's request:
 
 1. **Query Modification**:
    - Modify SQL query if user requests different data, filters, time ranges, limits, or aggregations
+   - If only filter values change (dates, ids, categories, thresholds), update params and keep the query unchanged
+   - Never inline literal filter values: use a named placeholder (e.g. :start_date) and put its value in params
    - Use correct table and column names from the schema
-   - Ensure valid SQL syntax (Snowflake SQL dialect)
+   - Ensure valid SQL syntax (${DIALECT_NAMES[dialect]} SQL dialect)
    - ALWAYS include a LIMIT clause (default: ${DEFAULT_LIMIT} rows) to prevent large result sets
    - Preserve the query structure that the component expects (e.g., column aliases)
 
@@ -214,7 +397,7 @@ Your task is to intelligently modify the props based on the user's request:
 Examples of user requests and modifications:
 /
 User: "Show me revenue for last quarter"
-- Modify query: Add date filter for last quarter
+- Modify query: Add date filter "WHERE O_ORDERDATE >= :start_date" and set params.start_date to the quarter start
 - Update title: "Revenue Last Quarter"
 - Update description: "Total revenue for the last 3 months"
 
@@ -224,12 +407,12 @@ User: "Show top 10 customers by spending"
 - Keep config.pageSize = 10
 
 User: "Revenue trend for last 6 months"
-- Modify query: Change time range to 6 months
+- Modify params: Change params.start_date to 6 months ago (query unchanged if it already filters on :start_date)
 - Update title: "Revenue Trend (6 Months)"
 
 Respond with a JSON object:
 {
-  "props": { /* modified props object with query, title, description, config */ },
+  "props": { /* modified props object with query, params, title, description, config */ },
   "isModified": boolean,
   "reasoning": "brief explanation of changes",
   "modifications": ["list of specific changes made"]
@@ -242,7 +425,8 @@ IMPORTANT:
 - Ensure query returns columns with expected aliases (e.g., "value" for KPICard)
 - Keep config properties that aren't affected by the request`;
 
-		const userMessage = `User request: "${userPrompt}"
+		const conversation = history.length > 0 ? `Conversation so far (oldest first):\n${describeConversation(history)}\n\n` : '';
+		const userMessage = `${conversation}User request: "${userPrompt}"
 
 Current props:
 ${JSON.stringify(originalProps, null, 2)}
@@ -251,40 +435,30 @@ Component type: ${componentType}
 
 Analyze the user's request and modify the props accordingly. Return the complete modified props object.`;
 
-		const chatCompletion = await groq.chat.completions.create({
-			messages: [
-				{
-					role: 'system',
-					content: systemPrompt
-				},
-				{
-					role: 'user',
-					content: userMessage
-				}
-			],
-			model: GROQ_MODEL,
+		const { result } = await LLM_PROVIDERS.completeJson('validate_props', {
+			system: systemPrompt,
+			messages: [{ role: 'user', content: userMessage }],
 			temperature: 0.2,
-			max_tokens: 2500,
-			response_format: { type: 'json_object' }
-		});
-
-		const responseText = chatCompletion.choices[0]?.message?.content || '{}';
-		const result = JSON.parse(responseText);
+			maxTokens: 2500
+		}, propsSchema(originalProps));
 
 		// Ensure all queries have a LIMIT clause
-		const props = result.props || originalProps;
+		const props = result.props;
 		if (props && props.query) {
-			props.query = ensureQueryLimit(props.query, DEFAULT_LIMIT);
+			props.query = ensureQueryLimit(props.query, DEFAULT_LIMIT, dialect);
 		}
 
 		return {
 			props: props,
-			isModified: result.isModified || false,
+			isModified: result.isModified,
 			reasoning: result.reasoning || 'No modifications needed',
 			modifications: result.modifications || []
 		};
 	} catch (error) {
-		console.error('Error validating/modifying props with Groq:', error);
+		if (error instanceof LLMOutputError) {
+			throw error;
+		}
+		logger.error('Error validating/modifying props', { error });
 		// Return original props if error occurs
 		return {
 			props: originalProps,
@@ -298,12 +472,16 @@ Analyze the user's request and modify the props accordingly. Return the complete
 /**
  * Legacy function - kept for backward compatibility
  * Use validateAndModifyProps instead for full props modification
+ * @param history - Earlier turns of the conversation, so the request can refer to them
+ * @param dialect - Dialect the query is written in (default: that of GENERATED_QUERY_SOURCE)
  */
 export async function validateAndModifyQuery(
 	userPrompt: string,
 	originalQuery: string,
 	componentName: string,
-	componentDescription?: string
+	componentDescription?: string,
+	history: ConversationTurn[] = [],
+	dialect: SqlDialect = generatedQueryDialect()
 ): Promise<{ query: string; isModified: boolean; reasoning: string }> {
 
 	const schemaDoc = generateSchemaDocumentation();
@@ -326,7 +504,7 @@ export async function validateAndModifyQuery(
     2. If it doesn't match, modify the query to align with the user's request using the correct table and column names from the schema
     3. If it matches, return the original query unchanged
     4. Ensure all table and column names in the query exist in the schema
-    5. Use proper SQL syntax (Snowflake SQL dialect)
+    5. Use proper SQL syntax (${DIALECT_NAMES[dialect]} SQL dialect)
 
     Respond with a JSON object containing:
     - query: the SQL query (original or modified)
@@ -339,40 +517,31 @@ export async function validateAndModifyQuery(
     IMPORTANT:
     - Only modify the query if the user's request requires different data than what the current query provides
     - Always use the exact table and column names from the provided database schema
-    - Ensure the query is valid Snowflake SQL syntax`;
+    - Ensure the query is valid ${DIALECT_NAMES[dialect]} SQL syntax`;
 
-		const userMessage = `User request: "${userPrompt}"
+		const conversation = history.length > 0 ? `Conversation so far (oldest first):\n${describeConversation(history)}\n\n` : '';
+		const userMessage = `${conversation}User request: "${userPrompt}"
     Existing query: "${originalQuery}"
 
     Does this query match the user's request? If not, modify it accordingly.`;
 
-		const chatCompletion = await groq.chat.completions.create({
-			messages: [
-				{
-					role: 'system',
-					content: systemPrompt
-				},
-				{
-					role: 'user',
-					content: userMessage
-				}
-			],
-			model: 	GROQ_MODEL,
+		const { result } = await LLM_PROVIDERS.completeJson('validate_query', {
+			system: systemPrompt,
+			messages: [{ role: 'user', content: userMessage }],
 			temperature: 0.2,
-			max_tokens: 1500,
-			response_format: { type: 'json_object' }
-		});
-
-		const responseText = chatCompletion.choices[0]?.message?.content || '{}';
-		const result = JSON.parse(responseText);
+			maxTokens: 1500
+		}, QUERY_SCHEMA);
 
 		return {
-			query: result.query || originalQuery,
-			isModified: result.isModified || false,
+			query: result.query,
+			isModified: result.isModified,
 			reasoning: result.reasoning || 'No reasoning provided'
 		};
 	} catch (error) {
-		console.error('Error validating/modifying query with Groq:', error);
+		if (error instanceof LLMOutputError) {
+			throw error;
+		}
+		logger.error('Error validating/modifying query', { error });
 		// Return original query if error occurs
 		return {
 			query: originalQuery,
@@ -382,19 +551,147 @@ export async function validateAndModifyQuery(
 	}
 }
 
+type QueryParams = Record<string, any> | any[];
+
+/**
+ * Ask the LLM to fix a generated query that failed to compile on its target source.
+ * The conversation is kept in messages, so later attempts see every earlier fix and its error
+ */
+async function repairGeneratedQuery(
+	userPrompt: string,
+	failed: { query: string; params: QueryParams },
+	error: string,
+	dialect: SqlDialect,
+	messages: LLMMessage[]
+): Promise<{ query: string; params: QueryParams }> {
+	const schemaDoc = generateSchemaDocumentation();
+
+	const systemPrompt = `You are an expert SQL engineer fixing queries that failed to compile.
+
+Database Schema:
+${schemaDoc || 'No schema available'}
+
+IMPORTANT: You must respond in valid JSON format.
+
+Given a user's question, the SQL query generated to answer it and the error the database returned, correct the query:
+- Keep the intent of the query; only change what the error requires
+- Use the exact table and column names from the schema
+- Use ${dialect} SQL dialect
+- Keep the named placeholders (e.g. :start_date) for literal filter values and their values in "params"
+- ALWAYS include a LIMIT clause (default: ${DEFAULT_LIMIT} rows)
+
+Respond with a JSON object:
+{
+  "query": "corrected SQL query",
+  "params": { /* values for the :name placeholders in query */ },
+  "reasoning": "What was wrong and how it was fixed"
+}`;
+
+	messages.push({
+		role: 'user',
+		content: messages.length === 0
+			? `User question: "${userPrompt}"
+
+Query:
+${failed.query}
+
+Params: ${JSON.stringify(failed.params)}
+
+Error: ${error}
+
+Return the corrected query.`
+			: `The corrected query failed as well.
+
+Error: ${error}
+
+Return another correction.`
+	});
+
+	const { result } = await LLM_PROVIDERS.completeJson('repair_query', {
+		system: systemPrompt,
+		messages,
+		temperature: 0.1,
+		maxTokens: 1500
+	}, REPAIR_QUERY_SCHEMA);
+	messages.push({ role: 'assistant', content: JSON.stringify(result) });
+
+	logger.debug('Repaired generated query', { reasoning: result.reasoning });
+	return { query: ensureQueryLimit(result.query, DEFAULT_LIMIT, dialect), params: result.params || {} };
+}
+
+/**
+ * Dry-run a generated query against its source and send compile errors back to the LLM, up to
+ * GENERATED_QUERY_MAX_REPAIRS times. Verification is only skipped (check.verified is false)
+ * when GENERATED_QUERY_VERIFY is "false"; a source that is not registered fails the query
+ * @param onProgress - Notified before each dry run
+ * @param sourceId - Source the query runs on (default: GENERATED_QUERY_SOURCE, or snowflake)
+ * @returns The query and params that compiled, or error when no version of the query did
+ */
+export async function verifyGeneratedQuery(
+	userPrompt: string,
+	generated: { query: string; params: QueryParams },
+	onProgress: ProgressCallback = () => {},
+	sourceId: string = process.env.GENERATED_QUERY_SOURCE || 'snowflake'
+): Promise<{ query: string; params: QueryParams; check: QueryCheck; error?: string }> {
+	const maxRepairs = parseInt(process.env.GENERATED_QUERY_MAX_REPAIRS || '2', 10);
+	const source = DATASOURCES.get(sourceId);
+
+	if (process.env.GENERATED_QUERY_VERIFY === 'false') {
+		generatedQueries.inc({ outcome: 'unverified' });
+		return { ...generated, check: { source: sourceId, verified: false, repairs: 0 } };
+	}
+	if (!source) {
+		const error = `Data source "${sourceId}" is not registered (set GENERATED_QUERY_VERIFY=false to return generated queries unverified)`;
+		generatedQueries.inc({ outcome: 'failed' });
+		logger.warn('Generated query cannot be verified', { source: sourceId, error });
+		return { ...generated, check: { source: sourceId, verified: false, repairs: 0 }, error };
+	}
+
+	return withSpan('prompt.verify_query', { attributes: { 'db.source': sourceId } }, async span => {
+		const messages: LLMMessage[] = [];
+		let current = generated;
+
+		for (let repairs = 0; ; repairs++) {
+			onProgress('verifying_query', repairs === 0 ? 'Checking generated query' : `Checking repaired query (attempt ${repairs})`);
+			const result = await runQuery({ source: sourceId, query: current.query, params: current.params, dryRun: true });
+			span.setAttribute('prompt.query_repairs', repairs);
+
+			if (result.success) {
+				generatedQueries.inc({ outcome: repairs > 0 ? 'repaired' : 'ok' });
+				return { ...current, check: { source: sourceId, verified: true, repairs } };
+			}
+
+			const error = result.errors?.join('; ') || 'Unknown error';
+			// A timeout or cancellation says nothing about the SQL, so it is not worth a repair
+			if (result.status || repairs >= maxRepairs) {
+				generatedQueries.inc({ outcome: 'failed' });
+				markSpanFailed(span, error);
+				logger.warn('Generated query does not compile', { source: sourceId, repairs, error });
+				return { ...current, check: { source: sourceId, verified: false, repairs }, error };
+			}
+
+			logger.warn('Generated query failed its dry run, asking for a fix', { source: sourceId, attempt: repairs + 1, error });
+			current = await repairGeneratedQuery(userPrompt, current, error, source.dialect, messages);
+		}
+	});
+}
+
 /**
  * Generate a dynamic component for analytical questions when no matching component exists
  * This creates a custom component with appropriate visualization and query
+ * The query is only returned once it compiles on its target source (see verifyGeneratedQuery)
  */
 export async function generateAnalyticalComponent(
 	userPrompt: string,
-	preferredVisualizationType?: string
+	preferredVisualizationType?: string,
+	onProgress: ProgressCallback = () => {}
 ): Promise<{
 	component: Component | null;
 	reasoning: string;
 	isGenerated: boolean;
 }> {
 	const schemaDoc = generateSchemaDocumentation();
+	const dialect = generatedQueryDialect();
 
 	try {
 		const visualizationConstraint = preferredVisualizationType
@@ -428,11 +725,12 @@ ${visualizationConstraint}
 
 2. **Generate appropriate SQL query:**
    - Use correct table and column names from the schema
-   - Use Snowflake SQL dialect
+   - Use ${DIALECT_NAMES[dialect]} SQL dialect
    - For KPICard: Return single row with column alias "value"
    - For Charts: Return appropriate columns (name/label and value, or x and y)
    - For Table: Return all relevant columns
    - Add appropriate filters, aggregations, sorting, and limits
+   - Use named placeholders (e.g. :start_date, :region) for literal filter values and put their values in "params"
    - ALWAYS include a LIMIT clause (default: ${DEFAULT_LIMIT} rows) to prevent large result sets
 
 3. **Create descriptive metadata:**
@@ -452,6 +750,7 @@ Respond with a JSON object:
 {
   "componentType": "KPICard" | "BarChart" | "LineChart" | "PieChart" | "DataTable",
   "query": "SQL query string",
+  "params": { /* values for the :name placeholders in query, e.g. "start_date": "1995-01-01" */ },
   "title": "Component title",
   "description": "Component description",
   "config": {
@@ -471,25 +770,12 @@ Respond with a JSON object:
 
 Analyze this question and generate the appropriate visualization with SQL query.`;
 
-		const chatCompletion = await groq.chat.completions.create({
-			messages: [
-				{
-					role: 'system',
-					content: systemPrompt
-				},
-				{
-					role: 'user',
-					content: userMessage
-				}
-			],
-			model: GROQ_MODEL,
+		const { result } = await LLM_PROVIDERS.completeJson('generate', {
+			system: systemPrompt,
+			messages: [{ role: 'user', content: userMessage }],
 			temperature: 0.2,
-			max_tokens: 2000,
-			response_format: { type: 'json_object' }
-		});
-
-		const responseText = chatCompletion.choices[0]?.message?.content || '{}';
-		const result = JSON.parse(responseText);
+			maxTokens: 2000
+		}, generateSchema(preferredVisualizationType));
 
 		if (!result.canGenerate) {
 			return {
@@ -499,8 +785,18 @@ Analyze this question and generate the appropriate visualization with SQL query.
 			};
 		}
 
-		// Ensure the generated query has a LIMIT clause
-		const query = ensureQueryLimit(result.query, DEFAULT_LIMIT);
+		// Ensure the generated query has a LIMIT clause, then make sure it compiles
+		const verified = await verifyGeneratedQuery(userPrompt, {
+			query: ensureQueryLimit(result.query, DEFAULT_LIMIT, dialect),
+			params: result.params || {}
+		}, onProgress);
+		if (verified.error) {
+			return {
+				component: null,
+				reasoning: `Generated query failed verification after ${verified.check.repairs} repair(s): ${verified.error}`,
+				isGenerated: false
+			};
+		}
 
 		// Create a dynamic component object
 		const dynamicComponent: Component = {
@@ -511,11 +807,13 @@ Analyze this question and generate the appropriate visualization with SQL query.
 			category: 'dynamic',
 			keywords: [],
 			props: {
-				query: query,
+				query: verified.query,
+				params: verified.params,
 				title: result.title,
 				description: result.description,
 				config: result.config || {}
-			}
+			},
+			queryCheck: verified.check
 		};
 
 
@@ -525,7 +823,10 @@ Analyze this question and generate the appropriate visualization with SQL query.
 			isGenerated: true
 		};
 	} catch (error) {
-		console.error('Error generating analytical component:', error);
+		if (error instanceof LLMOutputError) {
+			throw error;
+		}
+		logger.error('Error generating analytical component', { error });
 		return {
 			component: null,
 			reasoning: 'Error occurred while generating component',
@@ -540,20 +841,21 @@ Analyze this question and generate the appropriate visualization with SQL query.
  */
 export async function generateMultipleAnalyticalComponents(
 	userPrompt: string,
-	visualizationTypes: string[]
+	visualizationTypes: string[],
+	onProgress: ProgressCallback = () => {}
 ): Promise<{
 	components: Component[];
 	reasoning: string;
 	isGenerated: boolean;
 }> {
 	try {
-		console.log('✓ Generating multiple components:', visualizationTypes);
+		logger.debug('Generating multiple components', { visualizationTypes });
 
 		const components: Component[] = [];
 
 		// Generate each component type requested
 		for (const vizType of visualizationTypes) {
-			const result = await generateAnalyticalComponent(userPrompt, vizType);
+			const result = await generateAnalyticalComponent(userPrompt, vizType, onProgress);
 
 			if (result.component) {
 				components.push(result.component);
@@ -574,7 +876,10 @@ export async function generateMultipleAnalyticalComponents(
 			isGenerated: true
 		};
 	} catch (error) {
-		console.error('Error generating multiple analytical components:', error);
+		if (error instanceof LLMOutputError) {
+			throw error;
+		}
+		logger.error('Error generating multiple analytical components', { error });
 		return {
 			components: [],
 			reasoning: 'Error occurred while generating components',
@@ -585,17 +890,20 @@ export async function generateMultipleAnalyticalComponents(
 
 /**
  * Generate a complete multi-component response with intelligent container and component props
- * Uses Groq to determine container title, description, and tailored props for each component
+ * Uses the LLM to determine container title, description, and tailored props for each component
+ * Components whose query still does not compile after repairs are left out of the container
  */
 export async function generateMultiComponentResponse(
 	userPrompt: string,
-	visualizationTypes: string[]
+	visualizationTypes: string[],
+	onProgress: ProgressCallback = () => {}
 ): Promise<{
 	containerComponent: Component | null;
 	reasoning: string;
 	isGenerated: boolean;
 }> {
 	const schemaDoc = generateSchemaDocumentation();
+	const dialect = generatedQueryDialect();
 
 	try {
 		const systemPrompt = `You are an expert data analyst AI that creates comprehensive multi-component analytical dashboards.
@@ -616,11 +924,14 @@ Given a user's analytical question and the required visualization types, your ta
 
    - **query**: SQL query specific to this visualization using the database schema
      * Use correct table and column names
-     * Use Snowflake SQL dialect
+     * Use ${DIALECT_NAMES[dialect]} SQL dialect
      * ALWAYS include LIMIT clause (default: ${DEFAULT_LIMIT})
      * For KPICard: Return single row with column alias "value"
      * For Charts: Return appropriate columns (name/label and value, or x and y)
      * For Table: Return relevant columns
+     * Use named placeholders (e.g. :start_date) for literal filter values
+
+   - **params**: Values for the :name placeholders used in the query
 
    - **title**: Specific title for this component (2-4 words)
 
@@ -650,6 +961,7 @@ Given a user's analytical question and the required visualization types, your ta
     {
       "componentType": "KPICard" | "BarChart" | "LineChart" | "PieChart" | "DataTable",
       "query": "SQL query",
+      "params": { /* values for :name placeholders */ },
       "title": "Component title",
       "description": "Component description",
       "config": { /* type-specific config */ }
@@ -666,27 +978,14 @@ Required visualization types: ${visualizationTypes.join(', ')}
 
 Generate a complete multi-component dashboard with appropriate container metadata and tailored props for each component.`;
 
-		const chatCompletion = await groq.chat.completions.create({
-			messages: [
-				{
-					role: 'system',
-					content: systemPrompt
-				},
-				{
-					role: 'user',
-					content: userMessage
-				}
-			],
-			model: GROQ_MODEL,
+		const { result } = await LLM_PROVIDERS.completeJson('generate_multi', {
+			system: systemPrompt,
+			messages: [{ role: 'user', content: userMessage }],
 			temperature: 0.2,
-			max_tokens: 3000,
-			response_format: { type: 'json_object' }
-		});
-
-		const responseText = chatCompletion.choices[0]?.message?.content || '{}';
-		const result = JSON.parse(responseText);
+			maxTokens: 3000
+		}, GENERATE_MULTI_SCHEMA);
 
-		if (!result.canGenerate || !result.components || result.components.length === 0) {
+		if (!result.canGenerate) {
 			return {
 				containerComponent: null,
 				reasoning: result.reasoning || 'Unable to generate multi-component dashboard',
@@ -694,10 +993,16 @@ Generate a complete multi-component dashboard with appropriate container metadat
 			};
 		}
 
-		// Build the component array from the result
-		const generatedComponents: Component[] = result.components.map((compData: any, index: number) => {
+		// Build the component array from the result, dropping components whose query does not compile
+		const built = await Promise.all(result.components.map(async (compData: any, index: number): Promise<Component | null> => {
 			// Ensure query has LIMIT
-			const query = ensureQueryLimit(compData.query, DEFAULT_LIMIT);
+			const verified = await verifyGeneratedQuery(userPrompt, {
+				query: ensureQueryLimit(compData.query, DEFAULT_LIMIT, dialect),
+				params: compData.params || {}
+			}, onProgress);
+			if (verified.error) {
+				return null;
+			}
 
 			return {
 				id: `dynamic_${compData.componentType.toLowerCase()}_${Date.now()}_${index}`,
@@ -707,13 +1012,30 @@ Generate a complete multi-component dashboard with appropriate container metadat
 				category: 'dynamic',
 				keywords: [],
 				props: {
-					query: query,
+					query: verified.query,
+					params: verified.params,
 					title: compData.title,
 					description: compData.description,
 					config: compData.config || {}
-				}
+				},
+				queryCheck: verified.check
 			};
-		});
+		}));
+		const generatedComponents = built.filter((component): component is Component => component !== null);
+
+		if (generatedComponents.length === 0) {
+			return {
+				containerComponent: null,
+				reasoning: 'None of the generated queries compile',
+				isGenerated: false
+			};
+		}
+		if (generatedComponents.length < built.length) {
+			logger.warn('Dropped generated components whose query does not compile', {
+				dropped: built.length - generatedComponents.length,
+				kept: generatedComponents.length
+			});
+		}
 
 		// Create the MultiComponentContainer wrapper
 		const containerComponent: Component = {
@@ -740,7 +1062,10 @@ Generate a complete multi-component dashboard with appropriate container metadat
 			isGenerated: true
 		};
 	} catch (error) {
-		console.error('Error generating multi-component response:', error);
+		if (error instanceof LLMOutputError) {
+			throw error;
+		}
+		logger.error('Error generating multi-component response', { error });
 		return {
 			containerComponent: null,
 			reasoning: 'Error occurred while generating multi-component dashboard',
@@ -749,14 +1074,96 @@ Generate a complete multi-component dashboard with appropriate container metadat
 	}
 }
 
+/**
+ * Apply a follow-up to the component that answered the previous turn: its props (or, for a multi-component
+ * container, every inner component's props) are modified with the conversation as context.
+ * Modified queries of generated components are verified again on the source they were checked on, and an inner
+ * component whose query no longer compiles is dropped. Runtime components do not name their source, so their
+ * modified queries are returned as they are
+ */
+export async function refineComponent(
+	userPrompt: string,
+	previous: Component,
+	history: ConversationTurn[],
+	onProgress: ProgressCallback = () => {}
+): Promise<{
+	component: Component | null;
+	reasoning: string;
+	queryModified: boolean;
+	propsModified: boolean;
+	propsModifications: string[];
+}> {
+	const reasons: string[] = [];
+	const modifications: string[] = [];
+	let queryModified = false;
+	let propsModified = false;
+
+	const refine = async (component: Component): Promise<Component | null> => {
+		const result = await validateAndModifyProps(
+			userPrompt,
+			component.props,
+			component.name,
+			component.type,
+			component.description,
+			history,
+			component.queryCheck ? DATASOURCES.get(component.queryCheck.source)?.dialect : undefined
+		);
+		reasons.push(result.reasoning);
+		modifications.push(...result.modifications);
+		propsModified = propsModified || result.isModified;
+
+		const props = result.props;
+		const changed = !!props.query && (props.query !== component.props.query
+			|| JSON.stringify(props.params || {}) !== JSON.stringify(component.props.params || {}));
+		if (!changed) {
+			return { ...component, props };
+		}
+
+		queryModified = true;
+		if (!component.queryCheck) {
+			return { ...component, props };
+		}
+		const verified = await verifyGeneratedQuery(userPrompt, { query: props.query, params: props.params || {} }, onProgress, component.queryCheck.source);
+		if (verified.error) {
+			reasons.push(`Refined query failed verification after ${verified.check.repairs} repair(s): ${verified.error}`);
+			return null;
+		}
+		return { ...component, props: { ...props, query: verified.query, params: verified.params }, queryCheck: verified.check };
+	};
+
+	let component: Component | null;
+	if (previous.type === 'Container' && Array.isArray(previous.props?.config?.components)) {
+		const refined = await Promise.all(previous.props.config.components.map(refine));
+		const kept = refined.filter((child): child is Component => child !== null);
+		component = kept.length === 0 ? null : {
+			...previous,
+			props: { ...previous.props, config: { ...previous.props.config, components: kept } }
+		};
+	} else {
+		component = await refine(previous);
+	}
+
+	return {
+		component,
+		reasoning: reasons.join(' '),
+		queryModified,
+		propsModified,
+		propsModifications: modifications
+	};
+}
+
 /**
  * Main orchestration function that classifies question and routes to appropriate handler
  * This is the NEW recommended entry point for handling user requests
  * ALWAYS returns a SINGLE component (wraps multiple in MultiComponentContainer)
+ * @param onProgress - Notified as the request moves through classification and generation
+ * @param history - Earlier turns of the conversation; a follow-up refines the last turn's component
  */
 export async function handleUserRequest(
 	userPrompt: string,
-	components: Component[]
+	components: Component[],
+	onProgress: ProgressCallback = () => {},
+	history: ConversationTurn[] = []
 ): Promise<{
 	component: Component | null;
 	reasoning: string;
@@ -764,27 +1171,63 @@ export async function handleUserRequest(
 	questionType: string;
 	needsMultipleComponents: boolean;
 	propsModified?: boolean;
+	propsModifications?: string[];
 	queryModified?: boolean;
+	queryReasoning?: string;
 }> {
 	try {
 		// Step 1: Classify the user's question
-		console.log('✓ Classifying user question...');
-		const classification = await classifyUserQuestion(userPrompt);
-		console.log(`  Question type: ${classification.questionType}`);
-		console.log(`  Visualizations needed: ${classification.visualizations.join(', ') || 'None'}`);
-		console.log(`  Multiple components: ${classification.needsMultipleComponents}`);
+		logger.debug('Classifying user question');
+		onProgress('classifying', 'Classifying question');
+		const classification = await withSpan('prompt.classify', {}, async span => {
+			const result = await classifyUserQuestion(userPrompt, history);
+			span.setAttributes({
+				'prompt.question_type': result.questionType,
+				'prompt.visualizations': result.visualizations,
+				'prompt.multiple_components': result.needsMultipleComponents,
+				'prompt.refines_previous': result.refinesPrevious
+			});
+			return result;
+		});
+		logger.info('Classified user question', {
+			questionType: classification.questionType,
+			visualizations: classification.visualizations,
+			needsMultipleComponents: classification.needsMultipleComponents,
+			refinesPrevious: classification.refinesPrevious
+		});
+
+		// Step 2: Follow-ups refine the previous answer instead of starting over
+		const previous = history[history.length - 1]?.component;
+		if (classification.refinesPrevious && previous) {
+			onProgress('matching_component', 'Refining previous answer');
+			const result = await withSpan('prompt.refine_component', {
+				attributes: { 'prompt.component': previous.name }
+			}, () => refineComponent(userPrompt, previous, history, onProgress));
+
+			return {
+				component: result.component,
+				reasoning: result.reasoning,
+				method: 'conversation-refined',
+				questionType: classification.questionType,
+				needsMultipleComponents: previous.type === 'Container',
+				propsModified: result.propsModified,
+				propsModifications: result.propsModifications,
+				queryModified: result.queryModified,
+				queryReasoning: result.reasoning
+			};
+		}
 
-		// Step 2: Route based on question type
+		// Step 3: Route based on question type
 		if (classification.questionType === 'analytical') {
 			// For analytical questions with specific visualization types
 			if (classification.visualizations.length > 0) {
 				if (classification.needsMultipleComponents && classification.visualizations.length > 1) {
 					// Generate multiple components wrapped in MultiComponentContainer
-					console.log('✓ Generating multi-component dashboard...');
-					const result = await generateMultiComponentResponse(
-						userPrompt,
-						classification.visualizations
-					);
+					logger.debug('Generating multi-component dashboard');
+					onProgress('generating_sql', `Generating ${classification.visualizations.length} components`);
+					const result = await withSpan('prompt.generate_multi_component', {
+						attributes: { 'prompt.visualizations': classification.visualizations }
+					}, () => generateMultiComponentResponse(userPrompt, classification.visualizations, onProgress));
 
 					return {
 						component: result.containerComponent,
@@ -798,7 +1241,10 @@ export async function handleUserRequest(
 				} else {
 					// Generate single component with preferred type
 					const vizType = classification.visualizations[0];
-					const result = await generateAnalyticalComponent(userPrompt, vizType);
+					onProgress('generating_sql', `Generating ${vizType}`);
+					const result = await withSpan('prompt.generate_component', {
+						attributes: { 'prompt.visualization': vizType }
+					}, () => generateAnalyticalComponent(userPrompt, vizType, onProgress));
 
 					return {
 						component: result.component,
@@ -812,7 +1258,8 @@ export async function handleUserRequest(
 				}
 			} else {
 				// No specific visualization type, let AI decide
-				const result = await generateAnalyticalComponent(userPrompt);
+				onProgress('generating_sql', 'Generating component');
+				const result = await withSpan('prompt.generate_component', {}, () => generateAnalyticalComponent(userPrompt, undefined, onProgress));
 
 				return {
 					component: result.component,
@@ -826,8 +1273,11 @@ export async function handleUserRequest(
 			}
 		} else if (classification.questionType === 'data_modification') {
 			// For data modification, use the old component matching flow
-			console.log('✓ Using component matching for data modification...');
-			const matchResult = await matchComponentFromGroq(userPrompt, components);
+			logger.debug('Using component matching for data modification');
+			onProgress('matching_component', 'Matching existing component');
+			const matchResult = await withSpan('prompt.match_component', {
+				attributes: { 'prompt.candidates': components.length }
+			}, () => matchComponent(userPrompt, components, { history }));
 
 			return {
 				component: matchResult.component,
@@ -849,15 +1299,21 @@ export async function handleUserRequest(
 			};
 		}
 	} catch (error) {
-		console.error('Error handling user request:', error);
+		logger.error('Error handling user request', { error });
 		throw error;
 	}
 }
 
-// Using Groq LLM to match component from a list with enhanced props modification
-export async function matchComponentFromGroq(
+/**
+ * Match the user request to a component from the list, then tailor its props to the request.
+ * Generates a dynamic component when nothing matches
+ * @param options.prefer - Provider to try first for the matching step
+ * @param options.history - Earlier turns of the conversation, passed on to the props modification
+ */
+export async function matchComponent(
 	userPrompt: string,
-	components: Component[]
+	components: Component[],
+	options: { prefer?: string; history?: ConversationTurn[] } = {}
 ): Promise<{
 	component: Component | null;
 	reasoning: string;
@@ -946,29 +1402,16 @@ Example response:
 - Prefer components that exactly match the user's metric over generic ones
 - Consider the full context of the request, not just individual words`;
 
-		const chatCompletion = await groq.chat.completions.create({
-			messages: [
-				{
-					role: 'system',
-					content: systemPrompt
-				},
-				{
-					role: 'user',
-					content: `User request: "${userPrompt}"\n\nFind the best matching component and explain your reasoning with a confidence score.`
-				}
-			],
-			model: GROQ_MODEL,
+		const { result, provider } = await LLM_PROVIDERS.completeJson('match', {
+			system: systemPrompt,
+			messages: [{ role: 'user', content: `User request: "${userPrompt}"\n\nFind the best matching component and explain your reasoning with a confidence score.` }],
 			temperature: 0.2,
-			max_tokens: 800,
-			response_format: { type: 'json_object' }
-		});
-
-		const responseText = chatCompletion.choices[0]?.message?.content || '{}';
-		const result = JSON.parse(responseText);
+			maxTokens: 800
+		}, matchSchema(components), { prefer: options.prefer });
 
 		const componentIndex = result.componentIndex;
 		const componentId = result.componentId;
-		const confidence = result.confidence || 0;
+		const confidence = result.confidence;
 
 		// Prefer componentId over componentIndex for accuracy
 		let component = null;
@@ -976,23 +1419,24 @@ Example response:
 			component = components.find(c => c.id === componentId);
 		}
 
-		// Fallback to componentIndex if ID not found
+		// Without an id, use the index (the schema has checked that both point at a listed component)
 		if (!component && componentIndex) {
 			component = components[componentIndex - 1];
 		}
 
-		console.log('✓ Groq matched component:', component?.name || 'None');
-
-		if (result.alternativeMatches && result.alternativeMatches.length > 0) {
-			console.log('  Alternative matches:');
-			result.alternativeMatches.forEach((alt: any) => {
-				console.log(`    - ${components[alt.index - 1]?.name} (${alt.score}%): ${alt.reason}`);
-			});
-		}
+		logger.info('Matched component', {
+			provider,
+			component: component?.name,
+			confidence,
+			alternatives: (result.alternativeMatches || []).map((alt: any) => ({
+				component: components[alt.index - 1]?.name,
+				score: alt.score,
+				reason: alt.reason
+			}))
+		});
 
 		if (!component) {
-			console.log('✗ No matching component found (confidence:', confidence + '%)');
-			console.log('✓ Attempting to generate dynamic component from analytical question...');
+			logger.info('No matching component found, generating a dynamic component from the analytical question', { confidence });
 
 			// Try to generate a dynamic component for the analytical question
 			// Note: preferredVisualizationType should be passed from the caller if available
@@ -1002,7 +1446,7 @@ Example response:
 				return {
 					component: generatedResult.component,
 					reasoning: generatedResult.reasoning,
-					method: 'groq-generated',
+					method: `${provider}-generated`,
 					confidence: 100, // Generated components are considered 100% match to the question
 					propsModified: false,
 					queryModified: false
@@ -1013,7 +1457,7 @@ Example response:
 			return {
 				component: null,
 				reasoning: result.reasoning || 'No matching component found and unable to generate dynamic component',
-				method: 'groq-llm',
+				method: `${provider}-llm`,
 				confidence
 			};
 		}
@@ -1025,13 +1469,16 @@ Example response:
 		let queryReasoning = '';
 
 		if (component && component.props) {
-			const propsValidation = await validateAndModifyProps(
+			const propsValidation = await withSpan('prompt.validate_props', {
+				attributes: { 'prompt.component': component.name }
+			}, () => validateAndModifyProps(
 				userPrompt,
-				component.props,
-				component.name,
-				component.type,
-				component.description
-			);
+				component!.props,
+				component!.name,
+				component!.type,
+				component!.description,
+				options.history
+			));
 
 			// Create a new component object with the modified props
 			const originalQuery = component.props.query;
@@ -1056,11 +1503,11 @@ Example response:
 			queryReasoning,
 			propsModified,
 			propsModifications,
-			method: 'groq-llm',
+			method: `${provider}-llm`,
 			confidence
 		};
 	} catch (error) {
-		console.error('Error matching component with Groq:', error);
+		logger.error('Error matching component', { error });
 		throw error;
 	}
 }
@@ -5,7 +5,29 @@ export interface Component {
   description: string;
   props: {
     query?: string;
+    params?: Record<string, any> | any[];
     [key: string]: any;
   };
   [key: string]: any;
-}
\ No newline at end of file
+}
+
+/**
+ * Outcome of dry-running a generated component's query against its target source
+ */
+export interface QueryCheck {
+  source: string;
+  /** False when verification is disabled (GENERATED_QUERY_VERIFY=false) or the query did not compile */
+  verified: boolean;
+  /** Times the query went back to the LLM before it compiled */
+  repairs: number;
+}
+
+export type ProgressStage =
+  | 'classifying'
+  | 'generating_sql'
+  | 'matching_component'
+  | 'searching_components'
+  | 'verifying_query';
+
+/** Receives pipeline progress while a prompt is being answered */
+export type ProgressCallback = (stage: ProgressStage, message: string) => void;
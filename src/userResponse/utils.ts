@@ -1,4 +1,6 @@
 import snowflakeSchema from './snowflake-schema.json';
+import { applyRowCap } from '../sql/limit';
+import { SqlDialect } from '../datasources/types';
 
 // Generate database schema documentation for LLM from Snowflake JSON schema
 export function generateSchemaDocumentation(): string {
@@ -102,50 +104,16 @@ export function generateSchemaDocumentationConcise(): string {
 }
 
 /**
- * Ensures a SQL query has a LIMIT clause to prevent large result sets
- * Only applies to SELECT queries - leaves INSERT, UPDATE, DELETE, etc. unchanged
+ * Ensures the outermost query of a SQL statement returns at most `defaultLimit` rows
+ * Only applies to queries - leaves INSERT, UPDATE, DELETE, etc. unchanged
+ * Smaller user limits are kept; see applyRowCap for how LIMIT/FETCH/TOP/OFFSET are handled
  * @param query - The SQL query to check
- * @param defaultLimit - Default limit to apply if none exists (default: 50)
- * @returns The query with a LIMIT clause (if it's a SELECT query)
+ * @param defaultLimit - Maximum number of rows (default: 50)
+ * @param dialect - SQL dialect of the target source (default: 'postgres')
+ * @returns The query with its row count capped (if it's a query)
  */
-export function ensureQueryLimit(query: string, defaultLimit: number = 50): string {
-  if (!query || query.trim().length === 0) {
-    return query;
-  }
-
-  const trimmedQuery = query.trim();
-
-  // Only apply LIMIT to SELECT queries
-  // Check if the query is a SELECT statement (not INSERT, UPDATE, DELETE, CREATE, DROP, ALTER, etc.)
-  const isSelectQuery = /^\s*SELECT\b/i.test(trimmedQuery) ||
-                        /^\s*WITH\b.*\bSELECT\b/is.test(trimmedQuery); // Also handle CTEs (WITH clause)
-
-  if (!isSelectQuery) {
-    // Not a SELECT query, return as-is
-    return query;
-  }
-
-  // Check if query already has a LIMIT clause
-  const hasLimit = /\bLIMIT\s+\d+/i.test(trimmedQuery);
-
-  if (hasLimit) {
-    return query;
-  }
-
-  // Add LIMIT clause at the end (before any trailing semicolon)
-  let modifiedQuery = trimmedQuery;
-  if (modifiedQuery.endsWith(';')) {
-    modifiedQuery = modifiedQuery.slice(0, -1).trim();
-  }
-
-  modifiedQuery = `${modifiedQuery} LIMIT ${defaultLimit}`;
-
-  // Add back the semicolon if it was there
-  if (trimmedQuery.endsWith(';')) {
-    modifiedQuery += ';';
-  }
-
-  return modifiedQuery;
+export function ensureQueryLimit(query: string, defaultLimit: number = 50, dialect: SqlDialect = 'postgres'): string {
+  return applyRowCap(query, defaultLimit, dialect);
 }
 
 /**
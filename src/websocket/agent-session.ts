@@ -0,0 +1,830 @@
+import WebSocket from 'ws';
+import dotenv from 'dotenv';
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import {
+	AuthLoginReqMessage,
+	AuthVerifyReqMessage,
+	CacheInvalidateReqMessage,
+	CancelReqMessage,
+	CapabilitiesResMessage,
+	CompressionMode,
+	ComponentListMessage,
+	ConversationBranchReqMessage,
+	ConversationListReqMessage,
+	ConversationResetReqMessage,
+	DataReqMessage,
+	ErrorCode,
+	HealthReqMessage,
+	InboundMessage,
+	OutboundMessage,
+	SchedulerStatsReqMessage,
+	SfDataReqMessage,
+	UserPromptReqMessage,
+	ValidationIssue
+} from './types';
+import { validateInbound, validateOutbound } from './validators';
+import {
+	DEFAULT_CAPABILITIES,
+	FrameTooLargeError,
+	NegotiatedCapabilities,
+	SUPPORTED_COMPRESSION,
+	SUPPORTED_ROW_ENCODINGS,
+	decodeFrame,
+	encodeFrame,
+	encodeRows,
+	frameSize
+} from './encoding';
+import CHROMACOLLECTION from '../chromadb/collections';
+import { Component } from '../userResponse/types';
+import { get_user_response } from '../userResponse';
+import CONVERSATIONS, { ConversationError } from '../conversations';
+import { DataSourceResult } from '../datasources';
+import { runQuery } from '../datasources/query-runner';
+import queryCache from '../datasources/cache';
+import INFLIGHT from '../datasources/inflight';
+import { RequestScheduler } from './scheduler';
+import HEALTH from '../health';
+import { messagesReceived, protocolErrors, requestDuration, responsesSent, schedulerQueued, schedulerRejected, schedulerRunning, outcomeOf } from '../metrics';
+import { ackType, isRequestType, progressType, replyTo, responseType } from './protocol';
+import { decodeBase64ToJson } from '../auth/utils';
+import { authenticateAndStoreUserId, verifyAuthToken } from '../auth/validator';
+import logger, { setLogContext, withLogContext } from '../logger';
+import { SpanKind, extractTraceContext, failActiveSpan, withSpan } from '../tracing';
+
+dotenv.config();
+
+const DEFAULT_STREAM_BATCH_SIZE = 100;
+const PROTOCOL_VERSION = 1;
+
+export interface SessionEncodingOptions {
+	/** Offer gzip-compressed binary frames in the capabilities handshake */
+	compression: boolean;
+	/** Messages below this size are sent uncompressed */
+	compressionThresholdBytes: number;
+	/** Largest frame sent on the wire; larger responses are replaced with an error */
+	maxMessageBytes: number;
+}
+
+export const envInt = (name: string, fallback: number): number => {
+	const value = parseInt(process.env[name] || '', 10);
+	return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export const defaultEncodingOptions = (): SessionEncodingOptions => ({
+	compression: process.env.WS_COMPRESSION !== 'false',
+	compressionThresholdBytes: envInt('WS_COMPRESSION_THRESHOLD_BYTES', 8192),
+	maxMessageBytes: envInt('WS_MAX_MESSAGE_BYTES', 1048576)
+});
+
+/** State shared by every session of one agent: the relay's component list and the request scheduler */
+export interface AgentContext {
+	components: Component[];
+	scheduler: RequestScheduler;
+}
+
+export const createAgentContext = (): AgentContext => {
+	const scheduler = new RequestScheduler();
+
+	// Report the shared scheduler's load at scrape time
+	schedulerRunning.collect(gauge => {
+		for (const [type, stats] of Object.entries(scheduler.stats().types)) {
+			gauge.set({ type }, stats.running);
+		}
+	});
+	schedulerQueued.collect(gauge => {
+		for (const [type, stats] of Object.entries(scheduler.stats().types)) {
+			gauge.set({ type }, stats.queued);
+		}
+	});
+
+	return { components: [], scheduler };
+};
+
+/**
+ * Protocol handling for one connection to a runtime: inbound validation, acks, dispatch to the
+ * request handlers and encoded replies. Subclasses own the socket and decide how a validated
+ * message is delivered (the relay client buffers while disconnected, server connections do not)
+ */
+export abstract class AgentSession extends EventEmitter {
+	// Chosen by the runtime side in reply to our capabilities offer, reset for every connection
+	protected capabilities: NegotiatedCapabilities = { ...DEFAULT_CAPABILITIES };
+	// Compression modes offered in the last capabilities message; the runtime may only pick one of these
+	private offeredCompression: CompressionMode[] = ['none'];
+	// Used for scheduling fairness and cancellation when a message has no from.id
+	protected defaultRuntimeId = 'unknown';
+	// Set when the peer is the runtime itself rather than the relay: from.id is then only a claim,
+	// and everything the runtime owns (cancellation, conversations, login) is keyed by defaultRuntimeId
+	protected bindsRuntimeId = false;
+	// Username per runtime once it has logged in or verified a token, for log context
+	private users = new Map<string, string>();
+
+	constructor(protected encoding: SessionEncodingOptions, protected context: AgentContext) {
+		super();
+	}
+
+	protected abstract deliver(data: OutboundMessage): boolean;
+
+	/**
+	 * Runtime a message is from: from.id as set by the relay, or the connection's own id when bound
+	 */
+	protected runtimeIdOf(data: { from?: { id?: unknown } }): string {
+		return !this.bindsRuntimeId && typeof data?.from?.id === 'string' && data.from.id ? data.from.id : this.defaultRuntimeId;
+	}
+
+	/**
+	 * Components offered by the runtime in component_list, used to match prompts.
+	 * Shared through the agent context so HTTP prompts see the relay's list; server connections keep their own
+	 */
+	protected get components(): Component[] {
+		return this.context.components;
+	}
+
+	protected set components(components: Component[]) {
+		this.context.components = components;
+	}
+
+	/**
+	 * Offer our encodings to the runtime side. Until it answers with capabilities_res, messages are
+	 * sent as plain JSON text with row objects
+	 */
+	protected sendCapabilities(socket: WebSocket): void {
+		const perMessageDeflate = socket.extensions.includes('permessage-deflate');
+		// Frames are already deflated by the transport when permessage-deflate was negotiated
+		this.offeredCompression = this.encoding.compression && !perMessageDeflate ? SUPPORTED_COMPRESSION : ['none'];
+		this.send({
+			id: crypto.randomUUID(),
+			type: 'capabilities',
+			from: {
+				type: 'data_agent',
+			},
+			to: {
+				type: 'runtime',
+			},
+			payload: {
+				protocolVersion: PROTOCOL_VERSION,
+				compression: this.offeredCompression,
+				rowEncodings: SUPPORTED_ROW_ENCODINGS,
+				compressionThreshold: this.encoding.compressionThresholdBytes,
+				maxMessageBytes: this.encoding.maxMessageBytes,
+				perMessageDeflate
+			}
+		});
+	}
+
+	private handleCapabilitiesRes(data: CapabilitiesResMessage) {
+		const compression = data.payload.compression || 'none';
+		if (!this.offeredCompression.includes(compression)) {
+			logger.warn('Runtime chose a compression that was not offered', { compression, offered: this.offeredCompression });
+			this.sendError(data, 'invalid_message', `Compression "${compression}" was not offered`, [
+				{ path: 'payload.compression', message: `must be one of: ${this.offeredCompression.join(', ')}` }
+			]);
+			return;
+		}
+		this.capabilities = {
+			compression,
+			rowEncoding: data.payload.rowEncoding || 'rows'
+		};
+		logger.info('Negotiated capabilities', { compression: this.capabilities.compression, rowEncoding: this.capabilities.rowEncoding });
+	}
+
+	protected handleMessage(data: WebSocket.RawData, isBinary: boolean = false): void {
+		let json:any = {};
+
+		try{
+			json = JSON.parse(decodeFrame(data, isBinary, this.encoding.maxMessageBytes));
+		} catch (e) {
+			if (e instanceof FrameTooLargeError) {
+				logger.warn('Rejecting oversized compressed message', { maxBytes: e.maxBytes });
+				this.sendError(null, 'invalid_message', e.message, []);
+				return;
+			}
+			logger.warn('Error parsing message as JSON', { error: e });
+			this.sendError(null, 'invalid_json', 'Message is not valid JSON (or not a gzip frame)', []);
+			return;
+		}
+
+		// Everything logged while handling the message (including scheduled work) carries these fields
+		const runtimeId = this.runtimeIdOf(json);
+		withLogContext({
+			requestId: typeof json?.id === 'string' ? json.id : undefined,
+			runtimeId,
+			messageType: typeof json?.type === 'string' ? json.type : undefined,
+			user: runtimeId ? this.users.get(runtimeId) : undefined
+		}, () => {
+			logger.debug('Received message', { from: json?.from?.type, to: json?.to?.type });
+
+			const validation = validateInbound(json);
+			if (!validation.valid) {
+				logger.warn(`Rejecting invalid ${json?.type || 'untyped'} message`, { issues: validation.issues });
+				this.sendError(json, validation.code, `Invalid ${json?.type || 'untyped'} message`, validation.issues);
+				return;
+			}
+
+			const message = validation.message;
+			messagesReceived.inc({ type: message.type });
+
+			// One server span per message, continuing the runtime's trace when it sent one; it ends when the handler finishes
+			withSpan(message.type, {
+				kind: SpanKind.SERVER,
+				parent: extractTraceContext(message.trace),
+				attributes: { 'messaging.message.id': message.id, 'data_agent.runtime_id': runtimeId }
+			}, () => this.onMessage(message)).catch(error => {
+				logger.error(`Error handling ${message.type}`, { error });
+			});
+		});
+	}
+
+	/**
+	 * Reply with the standard error message. Without a parsable request the error carries no id
+	 */
+	private sendError(request: any, code: ErrorCode, message: string, details: ValidationIssue[]): void {
+		const isObject = request && typeof request === 'object' && !Array.isArray(request);
+		this.send({
+			id: isObject && typeof request.id === 'string' ? request.id : undefined,
+			type: 'error',
+			from: {
+				type: 'data_agent',
+			},
+			to: {
+				type: 'runtime',
+				id: isObject ? request.from?.id : undefined,
+			},
+			payload: {
+				code,
+				message,
+				requestType: isObject && typeof request.type === 'string' ? request.type : undefined,
+				details
+			}
+		});
+	}
+
+	private async onMessage(data: InboundMessage): Promise<void> {
+		// Acknowledge requests right away; the id correlates ack, progress and response
+		if (isRequestType(data.type)) {
+			this.send(replyTo(data, ackType(data.type), { receivedAt: new Date().toISOString() }));
+		}
+
+		// LLM calls and warehouse queries go through the scheduler; control messages run immediately
+		if (data.type === 'capabilities_res') {
+			this.handleCapabilitiesRes(data);
+		}
+		else if (data.type === 'data_req') {
+			await this.schedule(data, () => this.handleDataReq(data));
+		}
+		else if (data.type === 'sf_data_req') {
+			await this.schedule(data, () => this.handleSfDataReq(data));
+		}
+		else if (data.type === 'user_prompt_req') {
+			await this.schedule(data, () => this.handleUserPromptReq(data));
+		}
+		else if (data.type === 'scheduler_stats_req') {
+			this.handleSchedulerStatsReq(data);
+		}
+		else if (data.type === 'health_req') {
+			await this.handleHealthReq(data);
+		}
+		else if (data.type === 'component_list') {
+			this.handleComponentListRes(data);
+		}
+		else if (data.type === 'cancel_req') {
+			this.handleCancelReq(data);
+		}
+		else if (data.type === 'cache_invalidate_req') {
+			this.handleCacheInvalidateReq(data);
+		}
+		else if (data.type === 'auth_login_req') {
+			this.handleAuthLoginReq(data);
+		}
+		else if (data.type === 'auth_verify_req') {
+			this.handleAuthVerifyReq(data);
+		}
+		else if (data.type === 'conversation_list_req') {
+			this.handleConversationListReq(data);
+		}
+		else if (data.type === 'conversation_reset_req') {
+			this.handleConversationResetReq(data);
+		}
+		else if (data.type === 'conversation_branch_req') {
+			this.handleConversationBranchReq(data);
+		}
+	}
+
+	/**
+	 * Hand a request to the scheduler, answering with a busy error when its queue is full
+	 * @returns Resolves once the handler has finished (or the request was refused); handler errors are left to the scheduler to log
+	 */
+	private schedule(data: DataReqMessage | SfDataReqMessage | UserPromptReqMessage, handler: () => Promise<void>): Promise<void> {
+		return new Promise(resolve => {
+			const observe = requestDuration.startTimer({ type: data.type });
+			const accepted = this.context.scheduler.schedule(data.type, this.runtimeIdOf(data), () => handler()
+				.catch(error => {
+					failActiveSpan(error);
+					throw error;
+				})
+				.finally(() => {
+					observe();
+					resolve();
+				}));
+			if (!accepted) {
+				this.rejectBusy(data);
+				resolve();
+			}
+		});
+	}
+
+	private rejectBusy(data: DataReqMessage | SfDataReqMessage | UserPromptReqMessage): void {
+		schedulerRejected.inc({ type: data.type });
+
+		logger.warn(`Queue full for ${data.type}, rejecting request`);
+		this.send(replyTo(data, responseType(data.type), {
+			success: false,
+			error: 'busy',
+			errors: [`Too many pending ${data.type} requests, try again later`]
+		}));
+	}
+
+	handleSchedulerStatsReq(data: SchedulerStatsReqMessage) {
+		this.send(replyTo(data, 'scheduler_stats_res', this.context.scheduler.stats()));
+	}
+
+	async handleHealthReq(data: HealthReqMessage) {
+		const report = await HEALTH.check({ refresh: data.payload?.refresh === true });
+		this.send(replyTo(data, 'health_res', report));
+	}
+
+	/**
+	 * Validate and send a message to the runtime
+	 * @returns true if the message was sent (or, for the relay client, buffered)
+	 */
+	send(data: OutboundMessage): boolean {
+		// A malformed reply is a bug on our side; tell the runtime instead of sending it
+		const check = validateOutbound(data);
+		if (!check.valid) {
+			logger.error(`Refusing to send invalid ${data?.type} message`, { issues: check.issues });
+			if (data?.type !== 'error') {
+				this.sendError(data, 'internal_error', `Failed to build ${data?.type} message`, check.issues);
+			}
+			return false;
+		}
+
+		if (data.type === 'error') {
+			protocolErrors.inc({ code: data.payload.code });
+		} else if (data.type.endsWith('_res') && (!('stream' in data.payload) || data.payload.stream === 'complete')) {
+			// A streamed result counts once, on its completion message
+			const outcome = outcomeOf(data.payload);
+			responsesSent.inc({ type: data.type, outcome });
+			if (outcome !== 'ok') {
+				failActiveSpan(outcome);
+			}
+		}
+
+		return this.deliver(data);
+	}
+
+	/**
+	 * Encode a message and write it to the socket, replacing it with an error response when the
+	 * encoded frame exceeds maxMessageBytes
+	 */
+	protected writeTo(socket: WebSocket, data: OutboundMessage): boolean {
+		try {
+			const frame = this.encode(data);
+			const size = frameSize(frame);
+
+			// Enforce the size limit on what actually goes over the wire
+			if (size > this.encoding.maxMessageBytes) {
+				logger.error('Message too large', { responseType: data.type, bytes: size, maxBytes: this.encoding.maxMessageBytes });
+
+				// Send error response instead
+				const error = `Response too large (${(size / 1048576).toFixed(2)}MB). Please add LIMIT to your query or request less data.`;
+				const errorResponse = {
+					id: data.id,
+					type: data.type,
+					from: data.from,
+					to: data.to,
+					payload: {
+						success: false,
+						error,
+						errors: [error]
+					}
+				} as OutboundMessage;
+				socket.send(this.encode(errorResponse));
+				return false;
+			}
+
+			socket.send(frame);
+			return true;
+		} catch (error) {
+			logger.error('Error sending message', { error });
+			return false;
+		}
+	}
+
+	// Apply the negotiated row encoding and compression
+	protected encode(data: OutboundMessage): string | Buffer {
+		const json = JSON.stringify(encodeRows(data, this.capabilities.rowEncoding));
+		return encodeFrame(json, this.capabilities.compression, this.encoding.compressionThresholdBytes);
+	}
+
+	async handleDataReq(data: DataReqMessage) {
+		await this.handleSourceQueryReq(data, 'data_res', 'postgres');
+	}
+
+	async handleSfDataReq(data: SfDataReqMessage) {
+		await this.handleSourceQueryReq(data, 'sf_data_res', 'snowflake');
+	}
+
+	/**
+	 * Execute a query against the data source named in payload.source (or the default for the message type)
+	 * and reply with the source's result envelope.
+	 * Requests carrying pageSize, stream or cursor are paginated; stream=true sends the page as
+	 * a header message, numbered row batches and a completion message.
+	 * The query is stopped after payload.timeoutMs (or QUERY_TIMEOUT_MS) and can be cancelled with a
+	 * cancel_req naming this message's id; the result's status then reports 'timeout' or 'cancelled'
+	 */
+	private async handleSourceQueryReq(data: DataReqMessage | SfDataReqMessage, responseType: 'data_res' | 'sf_data_res', defaultSourceId: string) {
+		const id = data.id;
+		const payload = data.payload || {};
+		const sourceId: string = payload.source || defaultSourceId;
+
+		let response: any = {
+			id: id,
+			type: responseType,
+			from: {
+				type: 'data_agent',
+			},
+			to: {
+				type: 'runtime',
+				id: data.from?.id,
+			},
+			payload: null
+		};
+
+		try {
+			// Resolve source, enforce the SQL policy and execute (honouring Snowflake warehouse/role overrides)
+			const result = await runQuery({
+				source: sourceId,
+				query: payload.query,
+				params: payload.params,
+				cursor: payload.cursor,
+				paginate: !!payload.stream || payload.pageSize !== undefined,
+				pageSize: payload.pageSize,
+				warehouse: payload.warehouse,
+				role: payload.role,
+				cache: payload.cache === 'bypass' || payload.cache === 'refresh' ? payload.cache : undefined,
+				requestId: this.inflightKey(this.runtimeIdOf(data), id),
+				timeoutMs: payload.timeoutMs
+			});
+			if (!result.success) {
+				logger.warn('Query execution failed', { source: result.source, query: payload.query, status: result.status, errors: result.errors });
+			}
+
+			if (payload.stream && result.success) {
+				this.sendQueryStream(response, result, payload.batchSize);
+				return;
+			}
+
+			// Send result envelope back to server
+			response.payload = result;
+			this.send(response);
+		} catch (error) {
+			logger.error('Error processing query', { source: sourceId, error });
+			response.payload = {
+				success: false,
+				source: sourceId,
+				errors: [error instanceof Error ? error.message : 'Unknown error']
+			};
+			this.send(response);
+		}
+	}
+
+	/**
+	 * Send a query result as a stream: header (columns), numbered row batches, then a completion message
+	 */
+	private sendQueryStream(response: any, result: DataSourceResult, batchSize?: number): void {
+		const rows = result.data || [];
+		const size = Math.max(1, parseInt(String(batchSize), 10) || DEFAULT_STREAM_BATCH_SIZE);
+		const batches = Math.ceil(rows.length / size);
+
+		this.send({
+			...response,
+			payload: {
+				stream: 'header',
+				source: result.source,
+				dialect: result.dialect,
+				columns: result.columns || [],
+				offset: result.offset,
+				batchSize: size
+			}
+		});
+
+		for (let seq = 0; seq < batches; seq++) {
+			this.send({
+				...response,
+				payload: {
+					stream: 'batch',
+					seq,
+					rows: rows.slice(seq * size, (seq + 1) * size)
+				}
+			});
+		}
+
+		this.send({
+			...response,
+			payload: {
+				stream: 'complete',
+				totalRows: rows.length,
+				batches,
+				hasMore: result.hasMore,
+				nextCursor: result.nextCursor
+			}
+		});
+	}
+
+	// Runtimes can only cancel their own requests
+	private inflightKey(runtimeId: string, requestId: string): string {
+		return `${runtimeId}:${requestId}`;
+	}
+
+	/**
+	 * Cancel the running query started by the request whose id is payload.requestId.
+	 * The cancelled request still gets its own response, with status 'cancelled'
+	 */
+	handleCancelReq(data: CancelReqMessage) {
+		const requestId: string | undefined = data.payload?.requestId;
+		const cancelled = !!requestId && INFLIGHT.cancel(this.inflightKey(this.runtimeIdOf(data), requestId));
+		if (cancelled) {
+			logger.info('Cancelled query', { cancelledRequestId: requestId });
+		}
+
+		this.send(replyTo(data, 'cancel_res', {
+			success: cancelled,
+			requestId,
+			errors: cancelled ? undefined : [requestId ? `No running query for request ${requestId}` : 'requestId is required']
+		}));
+	}
+
+	/**
+	 * Drop cached query results for payload.source, or for every source when it is omitted
+	 */
+	handleCacheInvalidateReq(data: CacheInvalidateReqMessage) {
+		const source: string | undefined = data.payload?.source;
+		const removed = queryCache.invalidate(source);
+		logger.info('Invalidated cached results', { source, removed });
+
+		this.send(replyTo(data, 'cache_invalidate_res', { success: true, source, removed }));
+	}
+
+	/**
+	 * Answer a prompt, continuing the runtime's conversation thread named by payload.threadId
+	 */
+	async handleUserPromptReq(data: UserPromptReqMessage) {
+		const response = await get_user_response(data, this.components, (stage, message) => {
+			this.send(replyTo(data, progressType(data.type), { stage, message }));
+		}, this.runtimeIdOf(data));
+		if(!response.success) {
+			this.send({
+				id: data.id,
+				type: 'user_prompt_res',
+				from: {
+					type: 'data_agent',
+				},
+				to:{
+					type: 'runtime',
+					id: data.from?.id,
+				},
+				payload: response.failure || { error: response.reason }
+			});	
+			return;
+		}
+
+		this.send(response.response);
+
+	}
+
+	/**
+	 * List the runtime's conversation threads. Threads belong to the runtime that started them, like its in-flight queries
+	 */
+	handleConversationListReq(data: ConversationListReqMessage) {
+		this.send(replyTo(data, 'conversation_list_res', {
+			threads: CONVERSATIONS.list(this.runtimeIdOf(data))
+		}));
+	}
+
+	/**
+	 * Forget the thread named by payload.threadId, or every thread of the runtime when it is omitted
+	 */
+	handleConversationResetReq(data: ConversationResetReqMessage) {
+		const threadId: string | undefined = data.payload?.threadId;
+		const removed = CONVERSATIONS.reset(this.runtimeIdOf(data), threadId);
+		logger.info('Reset conversation threads', { threadId, removed });
+
+		this.send(replyTo(data, 'conversation_reset_res', { success: true, threadId, removed }));
+	}
+
+	handleConversationBranchReq(data: ConversationBranchReqMessage) {
+		const { threadId, newThreadId, turns } = data.payload;
+		try {
+			const thread = CONVERSATIONS.branch(this.runtimeIdOf(data), threadId, { newThreadId, turns });
+			logger.info('Branched conversation thread', { threadId, newThreadId: thread.id, turns: thread.turns });
+			this.send(replyTo(data, 'conversation_branch_res', { success: true, thread }));
+		} catch (error) {
+			if (!(error instanceof ConversationError)) {
+				throw error;
+			}
+			this.send(replyTo(data, 'conversation_branch_res', { success: false, errors: [error.message] }));
+		}
+	}
+
+	handleAuthLoginReq(data: AuthLoginReqMessage) {
+		const id = data.id;
+
+		try {
+			// Extract base64 encoded login data from payload
+			const loginDataBase64 = data.payload.login_data;
+
+			let response: any = {
+				id: id,
+				type: 'auth_login_res',
+				from: {
+					type: 'data_agent',
+				},
+				to: {
+					type: 'runtime',
+					id: data.from?.id,
+				},
+				payload: null
+			};
+
+			// Decode base64 data and parse JSON
+			let loginData: any;
+			try {
+				loginData = decodeBase64ToJson(loginDataBase64);
+			} catch (error) {
+				response.payload = {
+					success: false,
+					message: 'Invalid login data format'
+				};
+				this.send(response);
+				return;
+			}
+
+			// Extract username and password from decoded data
+			const { username, password } = loginData;
+
+			if (!username || !password) {
+				response.payload = {
+					success: false,
+					message: 'Username and password are required'
+				};
+				this.send(response);
+				return;
+			}
+
+			// Get userId from the message sender (the connection itself when the runtime id is bound)
+			const userId = this.bindsRuntimeId ? this.defaultRuntimeId : data.from?.id;
+
+			if (!userId) {
+				response.payload = {
+					success: false,
+					message: 'User ID not found in request'
+				};
+				this.send(response);
+				return;
+			}
+
+			// Authenticate user and store userId
+			const authResult = authenticateAndStoreUserId(
+				{ username, password },
+				userId
+			);
+
+			if (authResult.success && authResult.username) {
+				this.rememberUser(userId, authResult.username);
+			}
+
+			// Send response
+			response.payload = {
+				success: authResult.success,
+				message: authResult.message,
+				username: authResult.username
+			};
+
+			this.send(response);
+
+		} catch (error) {
+			logger.error('Error processing auth login request', { error });
+			this.send({
+				id: id,
+				type: 'auth_login_res',
+				from: {
+					type: 'data_agent',
+				},
+				to: {
+					type: 'runtime',
+					id: data.from?.id,
+				},
+				payload: {
+					success: false,
+					message: error instanceof Error ? error.message : 'Unknown error occurred'
+				}
+			});
+		}
+	}
+
+	handleAuthVerifyReq(data: AuthVerifyReqMessage) {
+		const id = data.id;
+
+		try {
+			// Extract auth_token from payload
+			const authToken = data.payload.auth_token;
+
+			let response: any = {
+				id: id,
+				type: 'auth_verify_res',
+				from: {
+					type: 'data_agent',
+				},
+				to: {
+					type: 'runtime',
+					id: data.from?.id,
+				},
+				payload: null
+			};
+
+			// Verify the auth token
+			const verificationResult = verifyAuthToken(authToken);
+
+			if (verificationResult.success && verificationResult.username) {
+				this.rememberUser(this.runtimeIdOf(data), verificationResult.username);
+			}
+
+			// Send response with valid field
+			response.payload = {
+				valid: verificationResult.success,
+				message: verificationResult.message,
+				username: verificationResult.username
+			};
+
+			this.send(response);
+
+		} catch (error) {
+			logger.error('Error processing auth verify request', { error });
+			this.send({
+				id: id,
+				type: 'auth_verify_res',
+				from: {
+					type: 'data_agent',
+				},
+				to: {
+					type: 'runtime',
+					id: data.from?.id,
+				},
+				payload: {
+					valid: false,
+					message: error instanceof Error ? error.message : 'Unknown error occurred'
+				}
+			});
+		}
+	}
+
+	private rememberUser(runtimeId: string, username: string): void {
+		this.users.set(runtimeId, username);
+		setLogContext({ user: username });
+	}
+
+	protected async handleComponentListRes(data: ComponentListMessage) {
+		// Store components in memory
+		this.components = data.payload?.components || [];
+		logger.info('Stored components in memory', { count: this.components.length });
+
+		// Store the components to ChromaDB (only if using ChromaDB method)
+		const matchingMethod = process.env.COMPONENT_MATCHING_METHOD || 'chromadb';
+
+		if (matchingMethod === 'chromadb') {
+			try {
+				const projectId = process.env.PROJECT_ID || '';
+				const collectionName = projectId + '_components';
+				const forceRecreate = process.env.FORCE_RECREATE_COLLECTION === 'true';
+
+				// Check if collection exists and has components
+				const exists = await CHROMACOLLECTION.collectionExists(collectionName);
+
+				if (exists && !forceRecreate) {
+					await CHROMACOLLECTION.getCollectionCount(collectionName);
+				} else {
+					if (exists && forceRecreate) {
+						await CHROMACOLLECTION.deleteCollection(collectionName);
+					}
+					// Collection doesn't exist, create and add components
+					logger.info('Creating collection and adding components', { collection: collectionName });
+					await CHROMACOLLECTION.addComponents(collectionName, this.components);
+				}
+			} catch (error) {
+				logger.warn('ChromaDB not available, falling back to Groq LLM matching. Set COMPONENT_MATCHING_METHOD=groq in .env to avoid this warning', { error: (error as Error).message });
+				// Don't throw - allow the application to continue even if ChromaDB storage fails
+			}
+		} else {
+		}
+	}
+}
@@ -0,0 +1,94 @@
+import zlib from 'zlib';
+import WebSocket from 'ws';
+import { ColumnarRows, CompressionMode, OutboundMessage, RowEncoding } from './types';
+
+export interface NegotiatedCapabilities {
+	compression: CompressionMode;
+	rowEncoding: RowEncoding;
+}
+
+/** What a server that never answers the capabilities offer gets: plain JSON text, rows as objects */
+export const DEFAULT_CAPABILITIES: NegotiatedCapabilities = {
+	compression: 'none',
+	rowEncoding: 'rows'
+};
+
+export const SUPPORTED_COMPRESSION: CompressionMode[] = ['gzip', 'none'];
+export const SUPPORTED_ROW_ENCODINGS: RowEncoding[] = ['columnar', 'rows'];
+
+/**
+ * Convert row objects to columnar form. Column order follows columnNames when given,
+ * otherwise the keys of the first row
+ */
+export function toColumnar(rows: any[], columnNames?: string[]): ColumnarRows {
+	const columns = columnNames && columnNames.length > 0 ? columnNames : Object.keys(rows[0] || {});
+	return {
+		columns,
+		values: columns.map(column => rows.map(row => row?.[column] ?? null))
+	};
+}
+
+/**
+ * Re-encode the rows of query results (data_res / sf_data_res, including stream batches)
+ * for the negotiated row encoding; other messages are returned unchanged
+ */
+export function encodeRows(message: OutboundMessage, encoding: RowEncoding): OutboundMessage {
+	if (encoding !== 'columnar' || (message.type !== 'data_res' && message.type !== 'sf_data_res')) {
+		return message;
+	}
+
+	const payload: any = message.payload;
+	if (Array.isArray(payload.data)) {
+		const names = Array.isArray(payload.columns) ? payload.columns.map((column: any) => column.name) : undefined;
+		return { ...message, payload: { ...payload, rowEncoding: 'columnar', data: toColumnar(payload.data, names) } };
+	}
+	if (payload.stream === 'batch' && Array.isArray(payload.rows)) {
+		return { ...message, payload: { ...payload, rowEncoding: 'columnar', rows: toColumnar(payload.rows) } };
+	}
+
+	return message;
+}
+
+/**
+ * Turn serialized JSON into a frame: gzip-compressed binary when negotiated and the message
+ * reaches the threshold, text otherwise
+ */
+export function encodeFrame(json: string, compression: CompressionMode, thresholdBytes: number): string | Buffer {
+	if (compression === 'gzip' && Buffer.byteLength(json, 'utf8') >= thresholdBytes) {
+		return zlib.gzipSync(json);
+	}
+	return json;
+}
+
+/**
+ * An inbound binary frame inflates to more than the allowed message size
+ */
+export class FrameTooLargeError extends Error {
+	constructor(readonly maxBytes: number) {
+		super(`Decompressed message exceeds ${maxBytes} bytes`);
+		this.name = 'FrameTooLargeError';
+	}
+}
+
+/**
+ * Read an inbound frame as JSON text; binary frames are gzip-compressed JSON
+ * @param maxBytes - Largest decompressed size accepted for a binary frame
+ * @throws FrameTooLargeError if a binary frame inflates past maxBytes
+ */
+export function decodeFrame(data: WebSocket.RawData, isBinary: boolean, maxBytes: number): string {
+	const buffer = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+	if (!isBinary) {
+		return buffer.toString('utf8');
+	}
+	try {
+		return zlib.gunzipSync(buffer, { maxOutputLength: maxBytes }).toString('utf8');
+	} catch (error) {
+		if (error instanceof RangeError && 'code' in error && error.code === 'ERR_BUFFER_TOO_LARGE') {
+			throw new FrameTooLargeError(maxBytes);
+		}
+		throw error;
+	}
+}
+
+export const frameSize = (frame: string | Buffer): number =>
+	typeof frame === 'string' ? Buffer.byteLength(frame, 'utf8') : frame.length;
@@ -0,0 +1,40 @@
+import { WebSocketMessage } from './types';
+
+/**
+ * Message-type conventions of the runtime protocol.
+ * Every `<name>_req` carries an id and is answered with `<name>_ack` on receipt, optional
+ * `<name>_progress` events while it runs, and a final `<name>_res`; all of them reuse the request's id
+ */
+
+export function isRequestType(type: string): boolean {
+	return typeof type === 'string' && type.endsWith('_req');
+}
+
+const baseType = (type: string): string => type.replace(/_req$/, '');
+
+export type ResponseType<T extends string> = T extends `${infer B}_req` ? `${B}_res` : `${T}_res`;
+
+export const responseType = <T extends string>(type: T): ResponseType<T> => `${baseType(type)}_res` as ResponseType<T>;
+export const ackType = (type: string): `${string}_ack` => `${baseType(type)}_ack`;
+export const progressType = (type: string): `${string}_progress` => `${baseType(type)}_progress`;
+
+/**
+ * Build a data agent message addressed to the runtime that sent the request
+ * @param request - Request being answered
+ * @param type - Type of the outgoing message
+ * @param payload - Message payload
+ */
+export function replyTo<T extends string, P>(request: Pick<WebSocketMessage, 'id' | 'from'>, type: T, payload: P): WebSocketMessage<T, P> {
+	return {
+		id: request.id,
+		type,
+		from: {
+			type: 'data_agent',
+		},
+		to: {
+			type: 'runtime',
+			id: request.from?.id,
+		},
+		payload
+	};
+}
@@ -0,0 +1,179 @@
+import dotenv from 'dotenv';
+import { AsyncResource } from 'async_hooks';
+import logger from '../logger';
+
+dotenv.config();
+
+type Task = () => Promise<void>;
+
+interface QueuedTask {
+	task: Task;
+	enqueuedAt: number;
+}
+
+interface TypeState {
+	limit: number;
+	running: number;
+	// Pending tasks per runtime id; Map order is the round-robin order
+	queues: Map<string, QueuedTask[]>;
+	queued: number;
+	completed: number;
+	rejected: number;
+	totalWaitMs: number;
+	maxWaitMs: number;
+}
+
+export interface SchedulerTypeStats {
+	limit: number;
+	running: number;
+	queued: number;
+	runtimes: number;
+	completed: number;
+	rejected: number;
+	avgWaitMs: number;
+	maxWaitMs: number;
+}
+
+export interface SchedulerStats {
+	maxQueue: number;
+	types: Record<string, SchedulerTypeStats>;
+}
+
+// LLM calls are the scarce resource (Groq rate limits), warehouse queries share one warehouse
+const DEFAULT_CONCURRENCY: Record<string, number> = {
+	user_prompt_req: 2,
+	data_req: 4,
+	sf_data_req: 4
+};
+
+const FALLBACK_CONCURRENCY = 4;
+
+/**
+ * Concurrency limit for a message type: SCHEDULER_CONCURRENCY_<TYPE> (e.g. SCHEDULER_CONCURRENCY_USER_PROMPT_REQ),
+ * then the built-in default for the type
+ */
+export function getConcurrencyLimit(type: string, env: NodeJS.ProcessEnv = process.env): number {
+	const value = parseInt(env[`SCHEDULER_CONCURRENCY_${type.toUpperCase()}`] || '', 10);
+	if (Number.isFinite(value) && value > 0) {
+		return value;
+	}
+	return DEFAULT_CONCURRENCY[type] ?? FALLBACK_CONCURRENCY;
+}
+
+/**
+ * Runs handlers with a concurrency limit per message type.
+ * Waiting requests are queued per runtime id and served round-robin, so one runtime sending a burst
+ * cannot starve the others. Each message type queues at most maxQueue requests; beyond that
+ * schedule() refuses the request and the caller answers with a busy error
+ */
+export class RequestScheduler {
+	private types = new Map<string, TypeState>();
+
+	constructor(private maxQueue: number = parseInt(process.env.SCHEDULER_MAX_QUEUE || '100', 10)) {}
+
+	private getState(type: string): TypeState {
+		let state = this.types.get(type);
+		if (!state) {
+			state = {
+				limit: getConcurrencyLimit(type),
+				running: 0,
+				queues: new Map(),
+				queued: 0,
+				completed: 0,
+				rejected: 0,
+				totalWaitMs: 0,
+				maxWaitMs: 0
+			};
+			this.types.set(type, state);
+		}
+		return state;
+	}
+
+	/**
+	 * Run a task now or queue it behind the running ones
+	 * @param type - Message type the task handles
+	 * @param runtimeId - Runtime that sent the message
+	 * @param task - Handler to run
+	 * @returns false when the queue for the type is full and the task was not accepted
+	 */
+	schedule(type: string, runtimeId: string, task: Task): boolean {
+		const state = this.getState(type);
+		// Queued tasks run later from another task's completion; keep the caller's log context
+		task = AsyncResource.bind(task);
+
+		if (state.running < state.limit) {
+			this.run(type, state, { task, enqueuedAt: Date.now() });
+			return true;
+		}
+
+		if (state.queued >= this.maxQueue) {
+			state.rejected++;
+			return false;
+		}
+
+		const queue = state.queues.get(runtimeId);
+		if (queue) {
+			queue.push({ task, enqueuedAt: Date.now() });
+		} else {
+			state.queues.set(runtimeId, [{ task, enqueuedAt: Date.now() }]);
+		}
+		state.queued++;
+		return true;
+	}
+
+	private run(type: string, state: TypeState, item: QueuedTask): void {
+		const waitMs = Date.now() - item.enqueuedAt;
+		state.totalWaitMs += waitMs;
+		state.maxWaitMs = Math.max(state.maxWaitMs, waitMs);
+		state.running++;
+
+		item.task()
+			.catch(error => {
+				logger.error(`Error handling ${type}`, error);
+			})
+			.finally(() => {
+				state.running--;
+				state.completed++;
+				this.next(type, state);
+			});
+	}
+
+	// Take the next task from the runtime at the head of the rotation, then move that runtime to the back
+	private next(type: string, state: TypeState): void {
+		const entry = state.queues.entries().next();
+		if (entry.done) {
+			return;
+		}
+
+		const [runtimeId, queue] = entry.value;
+		const item = queue.shift()!;
+		state.queues.delete(runtimeId);
+		if (queue.length > 0) {
+			state.queues.set(runtimeId, queue);
+		}
+		state.queued--;
+
+		this.run(type, state, item);
+	}
+
+	/**
+	 * Queue depth, concurrency and wait-time figures per message type
+	 */
+	stats(): SchedulerStats {
+		const types: Record<string, SchedulerTypeStats> = {};
+		for (const [type, state] of this.types) {
+			const started = state.completed + state.running;
+			types[type] = {
+				limit: state.limit,
+				running: state.running,
+				queued: state.queued,
+				runtimes: state.queues.size,
+				completed: state.completed,
+				rejected: state.rejected,
+				avgWaitMs: started > 0 ? Math.round(state.totalWaitMs / started) : 0,
+				maxWaitMs: state.maxWaitMs
+			};
+		}
+		return { maxQueue: this.maxQueue, types };
+	}
+}
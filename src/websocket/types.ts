@@ -1,13 +1,190 @@
-export interface  WebSocketMessage {
+import { DataSourceResult } from '../datasources/types';
+import { CacheMode } from '../datasources/cache';
+import { QueryParams } from '../sql/params';
+import { SchedulerStats } from './scheduler';
+import { Component, ProgressStage } from '../userResponse/types';
+import { HealthReport } from '../health/types';
+import { TraceCarrier } from '../tracing';
+import { ThreadSummary } from '../conversations/types';
+import { LLMOutputIssue, LLMStep } from '../llm/types';
+
+export type EndpointType = 'admin' | 'data_agent' | 'runtime';
+
+export interface  WebSocketMessage<T extends string = string, P = any> {
 	id: string;
-	type: string;
+	type: T;
 	from: {
-		type?: 'admin' | 'data_agent' | 'runtime';
+		type?: EndpointType;
 		id?: string;
 	};
 	to: {
-		type?: 'admin' | 'data_agent' | 'runtime';
+		type?: EndpointType;
 		id?: string;
 	};
-	payload: any;
-}
\ No newline at end of file
+	payload: P;
+	/** W3C trace context of the sender; the agent's spans for this request become its children */
+	trace?: TraceCarrier;
+}
+
+// ---- Inbound (runtime -> data agent) ----
+
+export interface DataReqPayload {
+	/** Required unless cursor is given */
+	query?: string;
+	params?: QueryParams;
+	source?: string;
+	cursor?: string;
+	pageSize?: number;
+	stream?: boolean;
+	batchSize?: number;
+	warehouse?: string;
+	role?: string;
+	cache?: CacheMode;
+	timeoutMs?: number;
+}
+
+export type DataReqMessage = WebSocketMessage<'data_req', DataReqPayload>;
+export type SfDataReqMessage = WebSocketMessage<'sf_data_req', DataReqPayload>;
+/** threadId picks the conversation the prompt continues (default: "default") */
+export type UserPromptReqMessage = WebSocketMessage<'user_prompt_req', { prompt: string; threadId?: string }>;
+export type ComponentListMessage = WebSocketMessage<'component_list', { components: Component[] }>;
+export type CancelReqMessage = WebSocketMessage<'cancel_req', { requestId: string }>;
+export type CacheInvalidateReqMessage = WebSocketMessage<'cache_invalidate_req', { source?: string }>;
+export type SchedulerStatsReqMessage = WebSocketMessage<'scheduler_stats_req', Record<string, never> | null | undefined>;
+/** refresh re-runs every check instead of reusing recent results */
+export type HealthReqMessage = WebSocketMessage<'health_req', { refresh?: boolean } | null | undefined>;
+/** login_data is base64-encoded JSON { username, password } */
+export type AuthLoginReqMessage = WebSocketMessage<'auth_login_req', { login_data: string }>;
+export type AuthVerifyReqMessage = WebSocketMessage<'auth_verify_req', { auth_token: string }>;
+export type ConversationListReqMessage = WebSocketMessage<'conversation_list_req', Record<string, never> | null | undefined>;
+/** Without threadId every thread of the runtime is reset */
+export type ConversationResetReqMessage = WebSocketMessage<'conversation_reset_req', { threadId?: string } | null | undefined>;
+/** Copies the first turns (default: all) of threadId into newThreadId (default: a generated id) */
+export type ConversationBranchReqMessage = WebSocketMessage<'conversation_branch_req', { threadId: string; newThreadId?: string; turns?: number }>;
+
+export type CompressionMode = 'none' | 'gzip';
+export type RowEncoding = 'rows' | 'columnar';
+
+/** Server's choice from our capabilities offer; omitted fields keep the defaults (none / rows) */
+export type CapabilitiesResMessage = WebSocketMessage<'capabilities_res', {
+	compression?: CompressionMode;
+	rowEncoding?: RowEncoding;
+}>;
+
+export type InboundMessage =
+	| CapabilitiesResMessage
+	| DataReqMessage
+	| SfDataReqMessage
+	| UserPromptReqMessage
+	| ComponentListMessage
+	| CancelReqMessage
+	| CacheInvalidateReqMessage
+	| SchedulerStatsReqMessage
+	| HealthReqMessage
+	| AuthLoginReqMessage
+	| AuthVerifyReqMessage
+	| ConversationListReqMessage
+	| ConversationResetReqMessage
+	| ConversationBranchReqMessage;
+
+export type InboundMessageType = InboundMessage['type'];
+
+// ---- Outbound (data agent -> runtime) ----
+
+export type QueryStreamPayload =
+	| { stream: 'header'; source: string; dialect?: string; columns: DataSourceResult['columns']; offset?: number; batchSize: number }
+	| { stream: 'batch'; seq: number; rows: any[] }
+	| { stream: 'complete'; totalRows: number; batches: number; hasMore?: boolean; nextCursor?: string };
+
+/** Failure envelope shared by responses that could not be produced (e.g. scheduler busy) */
+export interface FailurePayload {
+	success: false;
+	error?: string;
+	errors: string[];
+}
+
+/** Row data in columnar form: values[i] holds every row's value for columns[i] */
+export interface ColumnarRows {
+	columns: string[];
+	values: any[][];
+}
+
+export type DataResMessage = WebSocketMessage<'data_res' | 'sf_data_res', DataSourceResult | QueryStreamPayload | FailurePayload>;
+
+export interface UserPromptResult {
+	component: Component | null;
+	reasoning: string;
+	queryModified?: boolean;
+	queryReasoning?: string;
+	propsModified?: boolean;
+	propsModifications?: string[];
+	method: string;
+	/** Conversation thread the prompt was recorded in */
+	threadId?: string;
+}
+
+/** Prompt failure caused by model output that stayed invalid after every repair attempt */
+export interface LLMOutputFailurePayload extends FailurePayload {
+	error: 'llm_output_invalid';
+	/** Pipeline step whose output was invalid */
+	step: LLMStep;
+	issues: LLMOutputIssue[];
+}
+
+export type UserPromptResMessage = WebSocketMessage<'user_prompt_res', UserPromptResult | { error: string } | LLMOutputFailurePayload | FailurePayload>;
+export type AckMessage = WebSocketMessage<`${string}_ack`, { receivedAt: string }>;
+export type ProgressMessage = WebSocketMessage<`${string}_progress`, { stage: ProgressStage; message: string }>;
+export type CancelResMessage = WebSocketMessage<'cancel_res', { success: boolean; requestId?: string; errors?: string[] }>;
+export type CacheInvalidateResMessage = WebSocketMessage<'cache_invalidate_res', { success: true; source?: string; removed: number }>;
+export type SchedulerStatsResMessage = WebSocketMessage<'scheduler_stats_res', SchedulerStats>;
+export type HealthResMessage = WebSocketMessage<'health_res', HealthReport>;
+export type AuthLoginResMessage = WebSocketMessage<'auth_login_res', { success: boolean; message: string; username?: string }>;
+export type AuthVerifyResMessage = WebSocketMessage<'auth_verify_res', { valid: boolean; message: string; username?: string }>;
+export type ConversationListResMessage = WebSocketMessage<'conversation_list_res', { threads: ThreadSummary[] }>;
+export type ConversationResetResMessage = WebSocketMessage<'conversation_reset_res', { success: true; threadId?: string; removed: number }>;
+export type ConversationBranchResMessage = WebSocketMessage<'conversation_branch_res', { success: boolean; thread?: ThreadSummary; errors?: string[] }>;
+
+/** Sent on connect; the server answers with capabilities_res */
+export type CapabilitiesMessage = WebSocketMessage<'capabilities', {
+	protocolVersion: number;
+	compression: CompressionMode[];
+	rowEncodings: RowEncoding[];
+	/** Messages smaller than this are never compressed */
+	compressionThreshold: number;
+	maxMessageBytes: number;
+	/** Whether permessage-deflate was negotiated for this socket (gzip framing is then skipped) */
+	perMessageDeflate: boolean;
+}>;
+
+export interface ValidationIssue {
+	path: string;
+	message: string;
+}
+
+export type ErrorCode = 'invalid_json' | 'invalid_message' | 'unknown_type' | 'internal_error';
+
+/** Standard reply to a message that could not be accepted; id is absent when the message had none */
+export type ErrorMessage = Omit<WebSocketMessage<'error', {
+	code: ErrorCode;
+	message: string;
+	/** Type of the offending message, when it had one */
+	requestType?: string;
+	details: ValidationIssue[];
+}>, 'id'> & { id?: string };
+
+export type OutboundMessage =
+	| CapabilitiesMessage
+	| DataResMessage
+	| UserPromptResMessage
+	| AckMessage
+	| ProgressMessage
+	| CancelResMessage
+	| CacheInvalidateResMessage
+	| SchedulerStatsResMessage
+	| HealthResMessage
+	| AuthLoginResMessage
+	| AuthVerifyResMessage
+	| ConversationListResMessage
+	| ConversationResetResMessage
+	| ConversationBranchResMessage
+	| ErrorMessage;
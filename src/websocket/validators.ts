@@ -0,0 +1,374 @@
+import { ErrorCode, InboundMessage, InboundMessageType, OutboundMessage, ValidationIssue } from './types';
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+interface FieldRule {
+	kind: FieldKind | FieldKind[];
+	required?: boolean;
+	/** Strings must contain more than whitespace */
+	nonEmpty?: boolean;
+	oneOf?: readonly string[];
+}
+
+interface MessageSchema {
+	payload: Record<string, FieldRule>;
+	/** Cross-field checks, run when the individual fields are valid */
+	check?: (payload: any) => ValidationIssue[];
+}
+
+export type ValidationResult<T> =
+	| { valid: true; message: T }
+	| { valid: false; code: ErrorCode; issues: ValidationIssue[] };
+
+const ENDPOINT_TYPES = ['admin', 'data_agent', 'runtime'] as const;
+const CACHE_MODES = ['default', 'bypass', 'refresh'] as const;
+const PROGRESS_STAGES = ['classifying', 'generating_sql', 'matching_component', 'searching_components', 'verifying_query'] as const;
+const ERROR_CODES = ['invalid_json', 'invalid_message', 'unknown_type', 'internal_error'] as const;
+const COMPRESSION_MODES = ['none', 'gzip'] as const;
+const ROW_ENCODINGS = ['rows', 'columnar'] as const;
+const HEALTH_STATUSES = ['ok', 'degraded', 'down'] as const;
+
+const DATA_REQ_SCHEMA: MessageSchema = {
+	payload: {
+		query: { kind: 'string', nonEmpty: true },
+		params: { kind: ['object', 'array'] },
+		source: { kind: 'string', nonEmpty: true },
+		cursor: { kind: 'string', nonEmpty: true },
+		pageSize: { kind: 'number' },
+		stream: { kind: 'boolean' },
+		batchSize: { kind: 'number' },
+		warehouse: { kind: 'string' },
+		role: { kind: 'string' },
+		cache: { kind: 'string', oneOf: CACHE_MODES },
+		timeoutMs: { kind: 'number' }
+	},
+	check: payload => payload.query || payload.cursor
+		? []
+		: [{ path: 'payload.query', message: 'query is required unless cursor is given' }]
+};
+
+const INBOUND_SCHEMAS: Record<InboundMessageType, MessageSchema> = {
+	capabilities_res: {
+		payload: {
+			compression: { kind: 'string', oneOf: COMPRESSION_MODES },
+			rowEncoding: { kind: 'string', oneOf: ROW_ENCODINGS }
+		}
+	},
+	data_req: DATA_REQ_SCHEMA,
+	sf_data_req: DATA_REQ_SCHEMA,
+	user_prompt_req: {
+		payload: {
+			prompt: { kind: 'string', required: true, nonEmpty: true },
+			threadId: { kind: 'string', nonEmpty: true }
+		}
+	},
+	component_list: {
+		payload: { components: { kind: 'array', required: true } }
+	},
+	cancel_req: {
+		payload: { requestId: { kind: 'string', required: true, nonEmpty: true } }
+	},
+	cache_invalidate_req: {
+		payload: { source: { kind: 'string', nonEmpty: true } }
+	},
+	scheduler_stats_req: {
+		payload: {}
+	},
+	health_req: {
+		payload: { refresh: { kind: 'boolean' } }
+	},
+	auth_login_req: {
+		payload: { login_data: { kind: 'string', required: true, nonEmpty: true } }
+	},
+	auth_verify_req: {
+		payload: { auth_token: { kind: 'string', required: true, nonEmpty: true } }
+	},
+	conversation_list_req: {
+		payload: {}
+	},
+	conversation_reset_req: {
+		payload: { threadId: { kind: 'string', nonEmpty: true } }
+	},
+	conversation_branch_req: {
+		payload: {
+			threadId: { kind: 'string', required: true, nonEmpty: true },
+			newThreadId: { kind: 'string', nonEmpty: true },
+			turns: { kind: 'number' }
+		}
+	}
+};
+
+const RESULT_SCHEMA: MessageSchema = {
+	payload: {
+		success: { kind: 'boolean' },
+		stream: { kind: 'string', oneOf: ['header', 'batch', 'complete'] },
+		errors: { kind: 'array' }
+	},
+	check: payload => typeof payload.success === 'boolean' || payload.stream
+		? []
+		: [{ path: 'payload', message: 'result must have success or stream' }]
+};
+
+const OUTBOUND_SCHEMAS: Record<string, MessageSchema> = {
+	capabilities: {
+		payload: {
+			protocolVersion: { kind: 'number', required: true },
+			compression: { kind: 'array', required: true },
+			rowEncodings: { kind: 'array', required: true },
+			compressionThreshold: { kind: 'number', required: true },
+			maxMessageBytes: { kind: 'number', required: true },
+			perMessageDeflate: { kind: 'boolean', required: true }
+		}
+	},
+	data_res: RESULT_SCHEMA,
+	sf_data_res: RESULT_SCHEMA,
+	user_prompt_res: {
+		payload: {
+			component: { kind: 'object' },
+			reasoning: { kind: 'string' },
+			method: { kind: 'string' },
+			error: { kind: 'string' },
+			step: { kind: 'string' },
+			issues: { kind: 'array' }
+		}
+	},
+	cancel_res: {
+		payload: {
+			success: { kind: 'boolean', required: true },
+			requestId: { kind: 'string' },
+			errors: { kind: 'array' }
+		}
+	},
+	cache_invalidate_res: {
+		payload: {
+			success: { kind: 'boolean', required: true },
+			source: { kind: 'string' },
+			removed: { kind: 'number', required: true }
+		}
+	},
+	scheduler_stats_res: {
+		payload: {
+			maxQueue: { kind: 'number', required: true },
+			types: { kind: 'object', required: true }
+		}
+	},
+	health_res: {
+		payload: {
+			status: { kind: 'string', required: true, oneOf: HEALTH_STATUSES },
+			live: { kind: 'boolean', required: true },
+			ready: { kind: 'boolean', required: true },
+			components: { kind: 'array', required: true }
+		}
+	},
+	auth_login_res: {
+		payload: {
+			success: { kind: 'boolean', required: true },
+			message: { kind: 'string', required: true },
+			username: { kind: 'string' }
+		}
+	},
+	auth_verify_res: {
+		payload: {
+			valid: { kind: 'boolean', required: true },
+			message: { kind: 'string', required: true },
+			username: { kind: 'string' }
+		}
+	},
+	conversation_list_res: {
+		payload: { threads: { kind: 'array', required: true } }
+	},
+	conversation_reset_res: {
+		payload: {
+			success: { kind: 'boolean', required: true },
+			threadId: { kind: 'string' },
+			removed: { kind: 'number', required: true }
+		}
+	},
+	conversation_branch_res: {
+		payload: {
+			success: { kind: 'boolean', required: true },
+			thread: { kind: 'object' },
+			errors: { kind: 'array' }
+		}
+	},
+	error: {
+		payload: {
+			code: { kind: 'string', required: true, oneOf: ERROR_CODES },
+			message: { kind: 'string', required: true },
+			requestType: { kind: 'string' },
+			details: { kind: 'array', required: true }
+		}
+	}
+};
+
+const ACK_SCHEMA: MessageSchema = {
+	payload: { receivedAt: { kind: 'string', required: true } }
+};
+
+const PROGRESS_SCHEMA: MessageSchema = {
+	payload: {
+		stage: { kind: 'string', required: true, oneOf: PROGRESS_STAGES },
+		message: { kind: 'string', required: true }
+	}
+};
+
+const kindOf = (value: unknown): FieldKind | 'null' | 'undefined' | 'other' => {
+	if (value === null) return 'null';
+	if (value === undefined) return 'undefined';
+	if (Array.isArray(value)) return 'array';
+	const kind = typeof value;
+	if (kind === 'number' && !Number.isFinite(value)) return 'other';
+	return kind === 'string' || kind === 'number' || kind === 'boolean' || kind === 'object' ? kind : 'other';
+};
+
+const isObject = (value: unknown): value is Record<string, any> => kindOf(value) === 'object';
+
+function checkPayload(payload: any, schema: MessageSchema): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+
+	for (const [field, rule] of Object.entries(schema.payload)) {
+		const value = payload[field];
+		const path = `payload.${field}`;
+		const kinds = Array.isArray(rule.kind) ? rule.kind : [rule.kind];
+
+		if (value === undefined || value === null) {
+			if (rule.required) {
+				issues.push({ path, message: `${field} is required` });
+			}
+			continue;
+		}
+
+		const kind = kindOf(value);
+		if (!kinds.includes(kind as FieldKind)) {
+			issues.push({ path, message: `expected ${kinds.join(' or ')}, got ${kind}` });
+			continue;
+		}
+		if (rule.nonEmpty && typeof value === 'string' && value.trim().length === 0) {
+			issues.push({ path, message: `${field} must not be empty` });
+			continue;
+		}
+		if (rule.oneOf && !rule.oneOf.includes(value)) {
+			issues.push({ path, message: `must be one of ${rule.oneOf.join(', ')}` });
+		}
+	}
+
+	if (issues.length === 0 && schema.check) {
+		issues.push(...schema.check(payload));
+	}
+
+	return issues;
+}
+
+function checkEndpoint(value: unknown, path: string, issues: ValidationIssue[]): void {
+	if (value === undefined) {
+		return;
+	}
+	if (!isObject(value)) {
+		issues.push({ path, message: 'expected object' });
+		return;
+	}
+	if (value.type !== undefined && !ENDPOINT_TYPES.includes(value.type)) {
+		issues.push({ path: `${path}.type`, message: `must be one of ${ENDPOINT_TYPES.join(', ')}` });
+	}
+	if (value.id !== undefined && typeof value.id !== 'string') {
+		issues.push({ path: `${path}.id`, message: 'expected string' });
+	}
+}
+
+function checkTrace(value: unknown, issues: ValidationIssue[]): void {
+	if (value === undefined) {
+		return;
+	}
+	if (!isObject(value)) {
+		issues.push({ path: 'trace', message: 'expected object' });
+		return;
+	}
+	for (const field of ['traceparent', 'tracestate']) {
+		if (value[field] !== undefined && typeof value[field] !== 'string') {
+			issues.push({ path: `trace.${field}`, message: 'expected string' });
+		}
+	}
+}
+
+/**
+ * Validate a parsed message from the runtime against the inbound catalog.
+ * Requests (`*_req`) must carry an id; a missing payload is accepted when the type has no required fields
+ * @param raw - Parsed JSON
+ * @returns The typed message (with payload defaulted to {}), or the issues found
+ */
+export function validateInbound(raw: unknown): ValidationResult<InboundMessage> {
+	if (!isObject(raw)) {
+		return { valid: false, code: 'invalid_message', issues: [{ path: '', message: 'message must be a JSON object' }] };
+	}
+	if (typeof raw.type !== 'string' || raw.type.length === 0) {
+		return { valid: false, code: 'invalid_message', issues: [{ path: 'type', message: 'type is required' }] };
+	}
+
+	const schema = INBOUND_SCHEMAS[raw.type as InboundMessageType];
+	if (!schema) {
+		return { valid: false, code: 'unknown_type', issues: [{ path: 'type', message: `unknown message type "${raw.type}"` }] };
+	}
+
+	const issues: ValidationIssue[] = [];
+	if (raw.type.endsWith('_req') && (typeof raw.id !== 'string' || raw.id.length === 0)) {
+		issues.push({ path: 'id', message: 'id is required for requests' });
+	}
+	checkEndpoint(raw.from, 'from', issues);
+	checkEndpoint(raw.to, 'to', issues);
+	checkTrace(raw.trace, issues);
+
+	const payload = raw.payload ?? {};
+	if (!isObject(payload)) {
+		issues.push({ path: 'payload', message: 'expected object' });
+	} else {
+		issues.push(...checkPayload(payload, schema));
+	}
+
+	if (issues.length > 0) {
+		return { valid: false, code: 'invalid_message', issues };
+	}
+
+	return {
+		valid: true,
+		message: { ...raw, from: raw.from || {}, to: raw.to || {}, payload } as InboundMessage
+	};
+}
+
+/**
+ * Validate a message before it is sent to the runtime
+ * @param message - Outgoing message
+ */
+export function validateOutbound(message: unknown): ValidationResult<OutboundMessage> {
+	if (!isObject(message) || typeof message.type !== 'string') {
+		return { valid: false, code: 'internal_error', issues: [{ path: 'type', message: 'type is required' }] };
+	}
+
+	const schema = OUTBOUND_SCHEMAS[message.type]
+		|| (message.type.endsWith('_ack') ? ACK_SCHEMA : undefined)
+		|| (message.type.endsWith('_progress') ? PROGRESS_SCHEMA : undefined);
+	if (!schema) {
+		return { valid: false, code: 'internal_error', issues: [{ path: 'type', message: `unknown outbound type "${message.type}"` }] };
+	}
+
+	const issues: ValidationIssue[] = [];
+	// Errors about messages without an id cannot be correlated, every other reply must be
+	if (message.type !== 'error' && (typeof message.id !== 'string' || message.id.length === 0)) {
+		issues.push({ path: 'id', message: 'id is required' });
+	}
+	if (message.from?.type !== 'data_agent') {
+		issues.push({ path: 'from.type', message: 'must be data_agent' });
+	}
+	checkEndpoint(message.to, 'to', issues);
+
+	if (!isObject(message.payload)) {
+		issues.push({ path: 'payload', message: 'expected object' });
+	} else {
+		issues.push(...checkPayload(message.payload, schema));
+	}
+
+	if (issues.length > 0) {
+		return { valid: false, code: 'internal_error', issues };
+	}
+
+	return { valid: true, message: message as OutboundMessage };
+}
@@ -1,31 +1,70 @@
 import WebSocket from 'ws';
-import dotenv from 'dotenv';
-import { executeRawSQL } from '../db/queries';
-import { matchComponentFromGroq } from '../userResponse/groq-client';
-import { WebSocketMessage } from './types';
-import CHROMACOLLECTION from '../chromadb/collections';
-import { Component } from '../userResponse/types';
-import { matchComponentFromChromaDB } from '../userResponse/chorma-vector-search';
-import { get_user_response } from '../userResponse';
-import SNOWFLAKE from '../snowflake';
-import { validateMessageSize } from '../userResponse/utils';
-import { decodeBase64ToJson } from '../auth/utils';
-import { authenticateAndStoreUserId, verifyAuthToken } from '../auth/validator';
-
-dotenv.config();
-
-export class WebSocketClient {
+import { OutboundMessage } from './types';
+import { DEFAULT_CAPABILITIES } from './encoding';
+import { AgentContext, AgentSession, SessionEncodingOptions, createAgentContext, defaultEncodingOptions, envInt } from './agent-session';
+import logger from '../logger';
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface ConnectionStateEvent {
+	state: ConnectionState;
+	previous: ConnectionState;
+	/** Reconnect attempt number, 0 outside of reconnection */
+	attempt: number;
+	/** Delay before the next attempt, set when state is 'reconnecting' */
+	delayMs?: number;
+}
+
+export interface WebSocketClientOptions extends SessionEncodingOptions {
+	/** First reconnect delay; doubles on every failed attempt */
+	reconnectBaseMs: number;
+	reconnectMaxMs: number;
+	/** 0 retries forever */
+	maxReconnectAttempts: number;
+	/** Interval between pings; 0 disables heartbeats */
+	heartbeatIntervalMs: number;
+	/** The connection is considered dead when a ping is not answered within this time */
+	heartbeatTimeoutMs: number;
+	/** Messages kept while disconnected; the oldest are dropped beyond this */
+	outboundBufferSize: number;
+	/** Offer permessage-deflate in the WebSocket handshake */
+	perMessageDeflate: boolean;
+}
+
+const defaultOptions = (): WebSocketClientOptions => ({
+	...defaultEncodingOptions(),
+	reconnectBaseMs: envInt('WS_RECONNECT_BASE_MS', 1000),
+	reconnectMaxMs: envInt('WS_RECONNECT_MAX_MS', 60000),
+	maxReconnectAttempts: envInt('WS_MAX_RECONNECT_ATTEMPTS', 10),
+	heartbeatIntervalMs: envInt('WS_HEARTBEAT_INTERVAL_MS', 30000),
+	heartbeatTimeoutMs: envInt('WS_HEARTBEAT_TIMEOUT_MS', 10000),
+	outboundBufferSize: envInt('WS_OUTBOUND_BUFFER_SIZE', 500),
+	perMessageDeflate: process.env.WS_PERMESSAGE_DEFLATE !== 'false'
+});
+
+/**
+ * WebSocket connection to the runtime relay at WEBSOCKET_URL.
+ * Emits 'state' (ConnectionStateEvent) on every connection state change, plus 'connected',
+ * 'disconnected' and 'reconnect_failed' for convenience
+ */
+export class WebSocketClient extends AgentSession {
 	private ws: WebSocket | null = null;
 	private url: string;
-	private reconnectInterval: number = 5000;
+	private options: WebSocketClientOptions;
+	private state: ConnectionState = 'disconnected';
 	private reconnectAttempts: number = 0;
-	private maxReconnectAttempts: number = 10;
+	private reconnectTimer: NodeJS.Timeout | null = null;
 	private shouldReconnect: boolean = true;
-
-	private components: Component[] = [];
-
-	constructor(url?: string, timeout?: number) {
+	private heartbeatTimer: NodeJS.Timeout | null = null;
+	private heartbeatDeadline: NodeJS.Timeout | null = null;
+	// Messages produced while disconnected, encoded and flushed on reconnect
+	private outboundBuffer: OutboundMessage[] = [];
+
+	constructor(url?: string, options: Partial<WebSocketClientOptions> = {}, context: AgentContext = createAgentContext()) {
+		const resolved = { ...defaultOptions(), ...options };
+		super(resolved, context);
 		this.url = url || process.env.WEBSOCKET_URL || '';
+		this.options = resolved;
 
 		if (!this.url) {
 			throw new Error('WEBSOCKET_URL is not defined in environment variables');
@@ -33,6 +72,19 @@ export class WebSocketClient {
 
 	}
 
+	getState(): ConnectionState {
+		return this.state;
+	}
+
+	private setState(state: ConnectionState, delayMs?: number): void {
+		if (state === this.state && state !== 'reconnecting') {
+			return;
+		}
+		const event: ConnectionStateEvent = { state, previous: this.state, attempt: this.reconnectAttempts, delayMs };
+		this.state = state;
+		this.emit('state', event);
+	}
+
 	connect(): Promise<void> {
 		return new Promise((resolve, reject) => {
 			try {
@@ -45,25 +97,46 @@ export class WebSocketClient {
 				ws_url.searchParams.set('projectId', project_id);
 				ws_url.searchParams.set('type', 'data-agent');
 
-				console.log("connecting to websocket", ws_url.toString());
-				this.ws = new WebSocket(ws_url.toString());
+				logger.info('Connecting to WebSocket', { url: `${ws_url.origin}${ws_url.pathname}`, userId: user_id, projectId: project_id });
+				if (this.state !== 'reconnecting') {
+					this.setState('connecting');
+				}
+				const socket = new WebSocket(ws_url.toString(), { perMessageDeflate: this.options.perMessageDeflate });
+				this.ws = socket;
 
-				this.ws.on('open', () => {
+				socket.on('open', () => {
 					this.reconnectAttempts = 0;
+					this.capabilities = { ...DEFAULT_CAPABILITIES };
+					this.setState('connected');
+					this.emit('connected');
+					this.startHeartbeat(socket);
+					this.sendCapabilities(socket);
+					this.flushOutboundBuffer();
 					resolve();
 				});
 
-				this.ws.on('message', (data: WebSocket.Data) => {
-					this.handleMessage(data);
+				socket.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+					this.handleMessage(data, isBinary);
+				});
+
+				socket.on('pong', () => {
+					this.clearHeartbeatDeadline();
 				});
 
-				this.ws.on('error', (error: Error) => {
-					console.error('WebSocket error:', error.message);
+				socket.on('error', (error: Error) => {
+					logger.error('WebSocket error', { error: error.message });
 					reject(error);
 				});
 
-				this.ws.on('close', (code: number, reason: Buffer) => {
-					console.log(`WebSocket closed: ${code} - ${reason.toString()}`);
+				socket.on('close', (code: number, reason: Buffer) => {
+					logger.info('WebSocket closed', { code, reason: reason.toString() });
+					// Ignore sockets that were already replaced
+					if (this.ws !== socket) {
+						return;
+					}
+					this.stopHeartbeat();
+					this.ws = null;
+					this.emit('disconnected', { code, reason: reason.toString() });
 					this.handleReconnect();
 				});
 
@@ -73,477 +146,127 @@ export class WebSocketClient {
 		});
 	}
 
-	private handleMessage(data: WebSocket.Data): void {
-		const message = data.toString();
-		console.log('Received message:');
-
-		let json:any = {};
-
-		try{
-			json = JSON.parse(message);
-			console.log('Parsed message:', json.type, json.from?.type, json.to?.type);
-		} catch (e) {
-			console.log('Error parsing message as JSON:', e);
-
-		}
-
-		this.onMessage(json);
-
-	}
-
-	private onMessage(data: any): void {
-		if (data.type === 'data_req') {
-			this.handleDataReq(data);
-		}
-		else if (data.type === 'sf_data_req') {
-			this.handleSfDataReq(data);
-		}
-		else if (data.type === 'user_prompt_req') {
-			this.handleUserPromptReq(data);
-		}
-		else if (data.type === 'component_list') {
-			this.handleComponentListRes(data);
-		}
-		else if (data.type === 'auth_login_req') {
-			this.handleAuthLoginReq(data);
-		}
-		else if (data.type === 'auth_verify_req') {
-			this.handleAuthVerifyReq(data);
-		}
-		else {
-			console.warn('Unknown message type:', data);
-		}
-	}
-
-	send(data: any): boolean {
+	/**
+	 * Send a message, buffering it while disconnected so it is flushed on reconnect
+	 */
+	protected deliver(data: OutboundMessage): boolean {
 		if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-			console.error('WebSocket is not connected');
-			return false;
-		}
-
-		try {
-			const message = typeof data === 'string' ? data : JSON.stringify(data);
-
-			// Validate message size (1MB limit)
-			const validation = validateMessageSize(message, 1048576);
-			if (!validation.isValid) {
-				console.error(`Message too large: ${validation.size} bytes > ${validation.maxSize} bytes (${(validation.size / 1048576).toFixed(2)}MB)`);
-
-				// Send error response instead
-				const errorData = typeof data === 'string' ? JSON.parse(data) : data;
-				const errorResponse = {
-					id: errorData.id,
-					type: errorData.type,
-					from: errorData.from,
-					to: errorData.to,
-					payload: {
-						error: `Response too large (${(validation.size / 1048576).toFixed(2)}MB). Please add LIMIT to your query or request less data.`
-					}
-				};
-				this.ws.send(JSON.stringify(errorResponse));
+			if (!this.shouldReconnect || this.options.outboundBufferSize === 0) {
+				logger.error('WebSocket is not connected', { responseType: data.type });
 				return false;
 			}
-
-			this.ws.send(message);
+			this.outboundBuffer.push(data);
+			if (this.outboundBuffer.length > this.options.outboundBufferSize) {
+				this.outboundBuffer.shift();
+				logger.warn('Outbound buffer full, dropped the oldest message', { bufferSize: this.options.outboundBufferSize });
+			}
 			return true;
-		} catch (error) {
-			console.error('Error sending message:', error);
-			return false;
 		}
-	}
-
-	async handleDataReq(data: WebSocketMessage) {
-		const id = data.id || 'unknown';
-
-		try {
-			const query = data.payload?.query ;
-			let response: any = {
-				id: id,
-				type: 'data_res',
-				from: {
-					type: 'data_agent',
-				},
-				to:{
-					type: 'runtime',
-					id: data.from?.id,
-				},
-				payload: null
-			}
-
-			if(!query || query.trim().length === 0) {
-				response.payload = { error: 'Invalid query' };
-				this.send(JSON.stringify(response));
-				return;
-			}
 
-			// Execute query
-			const result = await executeRawSQL(query);
-			if (!result.success) {
-				console.error('Query execution failed:', result.errors);
-				response.payload = result.errors;
-			}
-			// Send result back to server
-			response.payload = result.data;
-
-			this.send(JSON.stringify(response));
-		} catch (error) {
-			console.error('Error processing message:', error);
-			this.send({
-				id: id,
-				type: 'data_res',
-				from: {
-					type: 'data_agent',
-				},
-				to:{
-					type: 'runtime',
-					id: data.from?.id,
-				},
-				payload: error instanceof Error ? error.message : 'Unknown error'
-			});
-		}
+		return this.writeTo(this.ws, data);
 	}
 
-	async handleSfDataReq(data: WebSocketMessage) {
-		const id = data.id || 'unknown';
-
-		try {
-			const query = data.payload?.query;
-			let response: any = {
-				id: id,
-				type: 'sf_data_res',
-				from: {
-					type: 'data_agent',
-				},
-				to: {
-					type: 'runtime',
-					id: data.from?.id,
-				},
-				payload: null
-			};
-
-			if (!query || query.trim().length === 0) {
-				response.payload = { error: 'Invalid query' };
-				this.send(JSON.stringify(response));
-				return;
-			}
-			// Execute Snowflake query
-			const result = await SNOWFLAKE.execute_query(query);
-
-			// Send result back to server
-			response.payload = result;
-
-			this.send(JSON.stringify(response));
-		} catch (error) {
-			console.error('Error processing Snowflake query:', error);
-			this.send({
-				id: id,
-				type: 'sf_data_res',
-				from: {
-					type: 'data_agent',
-				},
-				to: {
-					type: 'runtime',
-					id: data.from?.id,
-				},
-				payload: { error: error instanceof Error ? error.message : 'Unknown error' }
-			});
+	private flushOutboundBuffer(): void {
+		if (this.outboundBuffer.length === 0) {
+			return;
 		}
-	}
-
-	async handleUserPromptSuggestions(data: any) {
-		const id = data.id || 'unknown';
-		const prompt = data.payload?.prompt || '';
-
-		try {
-			if (!prompt || prompt.trim().length === 0) {
-				throw new Error('Prompt cannot be empty');
-			}
-
 
-			//use groq to get suggestions
-
-			const response: WebSocketMessage = {
-				id: id,
-				type: 'user_prompt_suggestions_res',
-				from: {
-					type: 'data_agent',
-				},
-				to:{
-					type: 'runtime',
-					id: data.from?.id,
-				},
-				payload: null
-			};
-
-			this.send(JSON.stringify(response));
-
-		} catch (error) {
-			console.error('Error handling user prompt suggestions:', error);
-			this.send({
-				id: id,
-				type: 'user_prompt_suggestions_res',
-				from: {
-					type: 'data_agent',
-				},
-				to:{
-					type: 'runtime',
-					id: data.from?.id,
-				},
-				payload: error instanceof Error ? error.message : 'Unknown error'
-			});
+		const messages = this.outboundBuffer;
+		this.outboundBuffer = [];
+		logger.info('Flushing buffered messages', { count: messages.length });
+		for (const message of messages) {
+			this.deliver(message);
 		}
 	}
 
-	async handleUserPromptReq(data: any) {
-		
-		const response = await get_user_response(data, this.components);
-		if(!response.success) {
-			this.send({
-				id: data.id,
-				type: 'user_prompt_res',
-				from: {
-					type: 'data_agent',
-				},
-				to:{
-					type: 'runtime',
-					id: data.from?.id,
-				},
-				payload: { error: response.reason }
-			});	
+	/**
+	 * Ping the server every heartbeatIntervalMs and terminate the socket when a pong does not
+	 * arrive in time, so half-open connections end up in the normal reconnect path
+	 */
+	private startHeartbeat(socket: WebSocket): void {
+		this.stopHeartbeat();
+		if (this.options.heartbeatIntervalMs === 0) {
 			return;
 		}
 
-		this.send(JSON.stringify(response.response));
-
-	}
-
-	handleAuthLoginReq(data: WebSocketMessage) {
-		const id = data.id || 'unknown';
-
-		try {
-			// Extract base64 encoded login data from payload
-			const loginDataBase64 = data.payload?.login_data;
-
-			let response: any = {
-				id: id,
-				type: 'auth_login_res',
-				from: {
-					type: 'data-agent',
-				},
-				to: {
-					type: 'runtime',
-					id: data.from?.id,
-				},
-				payload: null
-			};
-
-			// Validate login_data exists
-			if (!loginDataBase64) {
-				response.payload = {
-					success: false,
-					message: 'Login data is required'
-				};
-				this.send(JSON.stringify(response));
-				return;
-			}
-
-			// Decode base64 data and parse JSON
-			let loginData: any;
-			try {
-				loginData = decodeBase64ToJson(loginDataBase64);
-			} catch (error) {
-				response.payload = {
-					success: false,
-					message: 'Invalid login data format'
-				};
-				this.send(JSON.stringify(response));
-				return;
-			}
-
-			// Extract username and password from decoded data
-			const { username, password } = loginData;
-
-			if (!username || !password) {
-				response.payload = {
-					success: false,
-					message: 'Username and password are required'
-				};
-				this.send(JSON.stringify(response));
-				return;
-			}
-
-			// Get userId from the message sender
-			const userId = data.from?.id;
-
-			if (!userId) {
-				response.payload = {
-					success: false,
-					message: 'User ID not found in request'
-				};
-				this.send(JSON.stringify(response));
+		this.heartbeatTimer = setInterval(() => {
+			if (socket.readyState !== WebSocket.OPEN || this.heartbeatDeadline) {
 				return;
 			}
+			this.heartbeatDeadline = setTimeout(() => {
+				logger.error(`No heartbeat response within ${this.options.heartbeatTimeoutMs}ms, dropping connection`);
+				socket.terminate();
+			}, this.options.heartbeatTimeoutMs);
+			socket.ping();
+		}, this.options.heartbeatIntervalMs);
+	}
 
-			// Authenticate user and store userId
-			const authResult = authenticateAndStoreUserId(
-				{ username, password },
-				userId
-			);
-
-			// Send response
-			response.payload = {
-				success: authResult.success,
-				message: authResult.message,
-				username: authResult.username
-			};
-
-			this.send(JSON.stringify(response));
-
-		} catch (error) {
-			console.error('Error processing auth login request:', error);
-			this.send({
-				id: id,
-				type: 'auth_login_res',
-				from: {
-					type: 'data-agent',
-				},
-				to: {
-					type: 'runtime',
-					id: data.from?.id,
-				},
-				payload: {
-					success: false,
-					message: error instanceof Error ? error.message : 'Unknown error occurred'
-				}
-			});
+	private clearHeartbeatDeadline(): void {
+		if (this.heartbeatDeadline) {
+			clearTimeout(this.heartbeatDeadline);
+			this.heartbeatDeadline = null;
 		}
 	}
 
-	handleAuthVerifyReq(data: WebSocketMessage) {
-		const id = data.id || 'unknown';
-
-		try {
-			// Extract auth_token from payload
-			const authToken = data.payload?.auth_token;
-
-			let response: any = {
-				id: id,
-				type: 'auth_verify_res',
-				from: {
-					type: 'data-agent',
-				},
-				to: {
-					type: 'runtime',
-					id: data.from?.id,
-				},
-				payload: null
-			};
-
-			// Validate auth_token exists
-			if (!authToken) {
-				response.payload = {
-					valid: false,
-					message: 'Auth token is required'
-				};
-				this.send(JSON.stringify(response));
-				return;
-			}
-
-			// Verify the auth token
-			const verificationResult = verifyAuthToken(authToken);
-
-			// Send response with valid field
-			response.payload = {
-				valid: verificationResult.success,
-				message: verificationResult.message,
-				username: verificationResult.username
-			};
-
-			this.send(JSON.stringify(response));
-
-		} catch (error) {
-			console.error('Error processing auth verify request:', error);
-			this.send({
-				id: id,
-				type: 'auth_verify_res',
-				from: {
-					type: 'data-agent',
-				},
-				to: {
-					type: 'runtime',
-					id: data.from?.id,
-				},
-				payload: {
-					valid: false,
-					message: error instanceof Error ? error.message : 'Unknown error occurred'
-				}
-			});
+	private stopHeartbeat(): void {
+		if (this.heartbeatTimer) {
+			clearInterval(this.heartbeatTimer);
+			this.heartbeatTimer = null;
 		}
+		this.clearHeartbeatDeadline();
+	}
+
+	// Exponential backoff with equal jitter: half the delay is fixed, the other half random
+	private nextReconnectDelay(): number {
+		const { reconnectBaseMs, reconnectMaxMs } = this.options;
+		const delay = Math.min(reconnectMaxMs, reconnectBaseMs * 2 ** (this.reconnectAttempts - 1));
+		return Math.round(delay / 2 + Math.random() * delay / 2);
 	}
 
 	private handleReconnect(): void {
 		if (!this.shouldReconnect) {
-			console.log('Reconnection disabled, not attempting to reconnect');
+			logger.info('Reconnection disabled, not attempting to reconnect');
+			this.setState('disconnected');
 			return;
 		}
 
-		if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-			console.error('Max reconnect attempts reached. Giving up.');
+		const { maxReconnectAttempts } = this.options;
+		if (maxReconnectAttempts > 0 && this.reconnectAttempts >= maxReconnectAttempts) {
+			logger.error('Max reconnect attempts reached. Giving up.', { attempts: this.reconnectAttempts });
+			this.setState('disconnected');
+			this.emit('reconnect_failed', { attempts: this.reconnectAttempts });
 			return;
 		}
 
 		this.reconnectAttempts++;
-		console.log(`Reconnecting... (Attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+		const delay = this.nextReconnectDelay();
+		logger.info(`Reconnecting in ${delay}ms`, {
+			attempt: this.reconnectAttempts,
+			maxAttempts: maxReconnectAttempts > 0 ? maxReconnectAttempts : undefined
+		});
+		this.setState('reconnecting', delay);
 
-		setTimeout(() => {
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
 			this.connect().catch((error) => {
-				console.error('Reconnection failed:', error.message);
+				logger.error('Reconnection failed', { error: error.message });
 			});
-		}, this.reconnectInterval);
-	}
-
-	private async handleComponentListRes(data: WebSocketMessage) {
-		// Store components in memory
-		this.components = data.payload?.components || [];
-		console.log(`✓ Stored ${this.components.length} components in memory`);
-
-		// Store the components to ChromaDB (only if using ChromaDB method)
-		const matchingMethod = process.env.COMPONENT_MATCHING_METHOD || 'chromadb';
-
-		if (matchingMethod === 'chromadb') {
-			try {
-				const projectId = process.env.PROJECT_ID || '';
-				const collectionName = projectId + '_components';
-				const forceRecreate = process.env.FORCE_RECREATE_COLLECTION === 'true';
-
-				// Check if collection exists and has components
-				const exists = await CHROMACOLLECTION.collectionExists(collectionName);
-
-				if (exists && !forceRecreate) {
-					await CHROMACOLLECTION.getCollectionCount(collectionName);
-				} else {
-					if (exists && forceRecreate) {
-						await CHROMACOLLECTION.deleteCollection(collectionName);
-					}
-					// Collection doesn't exist, create and add components
-					console.log(`Creating new collection "${collectionName}" and adding components...`);
-					await CHROMACOLLECTION.addComponents(collectionName, this.components);
-				}
-			} catch (error) {
-				console.error('⚠️  ChromaDB not available:', (error as Error).message);
-				console.error('Falling back to Groq LLM method. Set COMPONENT_MATCHING_METHOD=groq in .env to avoid this warning.');
-				// Don't throw - allow the application to continue even if ChromaDB storage fails
-			}
-		} else {
-		}
+		}, delay);
 	}
 
 	disconnect(): void {
 		this.shouldReconnect = false;
+		this.stopHeartbeat();
+		this.outboundBuffer = [];
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = null;
+		}
 		if (this.ws) {
 			this.ws.close();
 			this.ws = null;
 		}
+		this.setState('disconnected');
 	}
 
 	isConnected(): boolean {
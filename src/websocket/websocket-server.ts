@@ -0,0 +1,207 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import { EventEmitter } from 'events';
+import { IncomingMessage } from 'http';
+import crypto from 'crypto';
+import { OutboundMessage } from './types';
+import { Component } from '../userResponse/types';
+import { AgentContext, AgentSession, SessionEncodingOptions, createAgentContext, defaultEncodingOptions, envInt } from './agent-session';
+import logger from '../logger';
+
+export interface AgentServerOptions extends SessionEncodingOptions {
+	host: string;
+	port: number;
+	/** When set, runtimes must present it as ?token=... or an "Authorization: Bearer" header */
+	token?: string;
+	/** Interval between pings; a connection that missed the previous pong is dropped. 0 disables heartbeats */
+	heartbeatIntervalMs: number;
+	/** Accept permessage-deflate when the runtime offers it */
+	perMessageDeflate: boolean;
+}
+
+const defaultOptions = (): AgentServerOptions => ({
+	...defaultEncodingOptions(),
+	host: process.env.WS_SERVER_HOST || '127.0.0.1',
+	port: envInt('WS_SERVER_PORT', 8787),
+	token: process.env.WS_SERVER_TOKEN || undefined,
+	heartbeatIntervalMs: envInt('WS_HEARTBEAT_INTERVAL_MS', 30000),
+	perMessageDeflate: process.env.WS_PERMESSAGE_DEFLATE !== 'false'
+});
+
+/**
+ * One runtime connected to the local server
+ */
+class RuntimeConnection extends AgentSession {
+	alive = true;
+	private ownComponents: Component[] = [];
+
+	constructor(
+		readonly connectionId: string,
+		private socket: WebSocket,
+		encoding: SessionEncodingOptions,
+		context: AgentContext
+	) {
+		super(encoding, context);
+		// The runtime is whoever holds this connection: from.id is ignored, so it cannot act as another runtime
+		this.defaultRuntimeId = connectionId;
+		this.bindsRuntimeId = true;
+
+		socket.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+			this.handleMessage(data, isBinary);
+		});
+		socket.on('pong', () => {
+			this.alive = true;
+		});
+
+		this.sendCapabilities(socket);
+	}
+
+	// Each runtime matches prompts against the components it sent, not those of other connections
+	protected get components(): Component[] {
+		return this.ownComponents;
+	}
+
+	protected set components(components: Component[]) {
+		this.ownComponents = components;
+	}
+
+	protected deliver(data: OutboundMessage): boolean {
+		if (this.socket.readyState !== WebSocket.OPEN) {
+			logger.error('Runtime connection is closed, dropping message', { connectionId: this.connectionId, responseType: data.type });
+			return false;
+		}
+		return this.writeTo(this.socket, data);
+	}
+
+	ping(): void {
+		if (!this.alive) {
+			logger.warn('Runtime connection missed a heartbeat, dropping it', { connectionId: this.connectionId });
+			this.socket.terminate();
+			return;
+		}
+		this.alive = false;
+		this.socket.ping();
+	}
+
+	close(): void {
+		this.socket.close(1001, 'Server shutting down');
+	}
+}
+
+/**
+ * Local WebSocket server mode: runtimes connect to the data agent directly instead of going through
+ * the relay at WEBSOCKET_URL, and speak the same message types. All connections share the agent's
+ * request scheduler; each keeps its own component list and acts as its own runtime.
+ * Emits 'connection' and 'disconnection' with the connection id
+ */
+export class AgentWebSocketServer extends EventEmitter {
+	private wss: WebSocketServer | null = null;
+	private options: AgentServerOptions;
+	private connections = new Map<string, RuntimeConnection>();
+	private heartbeatTimer: NodeJS.Timeout | null = null;
+
+	constructor(options: Partial<AgentServerOptions> = {}, private context: AgentContext = createAgentContext()) {
+		super();
+		this.options = { ...defaultOptions(), ...options };
+	}
+
+	start(): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const wss = new WebSocketServer({
+				host: this.options.host,
+				port: this.options.port,
+				perMessageDeflate: this.options.perMessageDeflate
+			});
+
+			wss.once('error', reject);
+			wss.once('listening', () => {
+				wss.off('error', reject);
+				wss.on('error', (error) => logger.error('WebSocket server error', { error: error.message }));
+				logger.info(`Data agent listening on ws://${this.options.host}:${this.port()}`);
+				this.startHeartbeat();
+				resolve();
+			});
+
+			wss.on('connection', (socket, request) => this.handleConnection(socket, request));
+
+			this.wss = wss;
+		});
+	}
+
+	/**
+	 * Port the server is bound to (differs from options.port when 0 was requested)
+	 */
+	port(): number {
+		const address = this.wss?.address();
+		return address && typeof address === 'object' ? address.port : this.options.port;
+	}
+
+	connectionCount(): number {
+		return this.connections.size;
+	}
+
+	private isAuthorized(request: IncomingMessage): boolean {
+		if (!this.options.token) {
+			return true;
+		}
+
+		const url = new URL(request.url || '/', 'ws://localhost');
+		const header = request.headers.authorization || '';
+		const presented = url.searchParams.get('token') || (header.startsWith('Bearer ') ? header.slice(7) : '');
+
+		const expected = Buffer.from(this.options.token);
+		const actual = Buffer.from(presented);
+		return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+	}
+
+	private handleConnection(socket: WebSocket, request: IncomingMessage): void {
+		if (!this.isAuthorized(request)) {
+			logger.warn('Rejected unauthorized runtime connection', { remoteAddress: request.socket.remoteAddress });
+			socket.close(1008, 'Unauthorized');
+			return;
+		}
+
+		const connectionId = crypto.randomUUID();
+		const connection = new RuntimeConnection(connectionId, socket, this.options, this.context);
+		this.connections.set(connectionId, connection);
+		logger.info('Runtime connected', { connectionId, active: this.connections.size });
+		this.emit('connection', connectionId);
+
+		socket.on('error', (error) => {
+			logger.error('Runtime connection error', { connectionId, error: error.message });
+		});
+		socket.on('close', (code: number) => {
+			this.connections.delete(connectionId);
+			logger.info('Runtime disconnected', { connectionId, code });
+			this.emit('disconnection', connectionId);
+		});
+	}
+
+	private startHeartbeat(): void {
+		if (this.options.heartbeatIntervalMs === 0) {
+			return;
+		}
+		this.heartbeatTimer = setInterval(() => {
+			for (const connection of this.connections.values()) {
+				connection.ping();
+			}
+		}, this.options.heartbeatIntervalMs);
+	}
+
+	async stop(): Promise<void> {
+		if (this.heartbeatTimer) {
+			clearInterval(this.heartbeatTimer);
+			this.heartbeatTimer = null;
+		}
+
+		for (const connection of this.connections.values()) {
+			connection.close();
+		}
+		this.connections.clear();
+
+		const wss = this.wss;
+		this.wss = null;
+		if (wss) {
+			await new Promise<void>(resolve => wss.close(() => resolve()));
+		}
+	}
+}
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkSql, SqlPolicy } from '../src/sql/guard';
+import { splitStatements, tokenize } from '../src/sql/tokenizer';
+
+const READ_ONLY: SqlPolicy = { readOnly: true, allowDdl: false };
+const codes = (sql: string, dialect: Parameters<typeof checkSql>[1], policy: SqlPolicy = READ_ONLY) =>
+	checkSql(sql, dialect, policy).rejections.map(rejection => rejection.code);
+
+describe('tokenize', () => {
+	it('reads backslashes as escapes only where the dialect does', () => {
+		const sql = "SELECT 'a\\'b' AS x";
+		assert.equal(tokenize(sql, 'snowflake').find(token => token.type === 'string')?.value, "'a\\'b'");
+		assert.equal(tokenize(sql, 'mysql').find(token => token.type === 'string')?.value, "'a\\'b'");
+		assert.equal(tokenize(sql, 'postgres').find(token => token.type === 'string')?.value, "'a\\'");
+	});
+
+	it('reads backslash escapes in Postgres E strings', () => {
+		const strings = tokenize("SELECT E'a\\'b', e'c\\\\'", 'postgres').filter(token => token.type === 'string');
+		assert.deepEqual(strings.map(token => token.value), ["E'a\\'b'", "e'c\\\\'"]);
+	});
+});
+
+describe('splitStatements', () => {
+	it('splits on a semicolon after a Postgres string ending in a backslash', () => {
+		assert.deepEqual(splitStatements("SELECT 'a\\'; SELECT 1", 'postgres'), ["SELECT 'a\\'", 'SELECT 1']);
+		assert.deepEqual(splitStatements("SELECT 'a\\'; SELECT 1'", 'snowflake'), ["SELECT 'a\\'; SELECT 1'"]);
+	});
+});
+
+describe('checkSql', () => {
+	it('allows a single read', () => {
+		const result = checkSql('SELECT id FROM orders WHERE id = $1', 'postgres', READ_ONLY);
+		assert.equal(result.allowed, true);
+		assert.deepEqual(result.tables, ['orders']);
+	});
+
+	it('rejects writes, DDL and several statements on a read-only source', () => {
+		assert.deepEqual(codes('DELETE FROM orders', 'postgres'), ['write_not_allowed']);
+		assert.deepEqual(codes('DROP TABLE orders', 'postgres'), ['ddl_not_allowed']);
+		assert.deepEqual(codes('SELECT 1; SELECT 2', 'postgres'), ['multiple_statements']);
+	});
+
+	it('rejects denied functions on a read-only source', () => {
+		assert.deepEqual(codes("SELECT nextval('orders_id_seq')", 'postgres'), ['function_not_allowed']);
+		assert.deepEqual(codes('SELECT pg_sleep(100)', 'postgres'), ['function_not_allowed']);
+	});
+
+	it('does not let a backslash hide a second Postgres statement', () => {
+		assert.deepEqual(codes("SELECT 'a\\'; SELECT pg_sleep(100); --'", 'postgres'), ['multiple_statements']);
+	});
+
+	it('does not let a backslash hide a Postgres table from the allow-list', () => {
+		const result = checkSql("SELECT 'x\\', * FROM secret_table --'", 'postgres', { ...READ_ONLY, allowedTables: ['orders'] });
+		assert.equal(result.allowed, false);
+		assert.deepEqual(result.tables, ['secret_table']);
+		assert.deepEqual(result.rejections.map(rejection => rejection.code), ['tables_unverified', 'table_not_allowed']);
+	});
+
+	it('keeps a backslash-escaped quote inside the string where the dialect escapes', () => {
+		const result = checkSql("SELECT 'a\\'; SELECT pg_sleep(100); --' AS x FROM orders", 'snowflake', { ...READ_ONLY, allowedTables: ['orders'] });
+		assert.equal(result.allowed, true);
+		assert.deepEqual(result.tables, ['orders']);
+	});
+
+	it('rejects tables outside the allow-lists', () => {
+		assert.deepEqual(codes('SELECT * FROM secret_table', 'postgres', { ...READ_ONLY, allowedTables: ['orders'] }), ['table_not_allowed']);
+		assert.deepEqual(codes('SELECT * FROM private.orders', 'postgres', { ...READ_ONLY, allowedSchemas: ['public'] }), ['schema_not_allowed']);
+	});
+});
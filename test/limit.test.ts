@@ -0,0 +1,171 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyRowCap, toDryRun } from '../src/sql/limit';
+
+const wrapped = (inner: string, cap: number) => `SELECT * FROM (\n${inner}\n) AS _capped LIMIT ${cap}`;
+
+describe('applyRowCap', () => {
+	describe('queries without a row limit', () => {
+		it('appends LIMIT', () => {
+			assert.equal(applyRowCap('SELECT * FROM t', 100), 'SELECT * FROM t LIMIT 100');
+		});
+
+		it('keeps trailing semicolons and comments after the limit', () => {
+			assert.equal(applyRowCap('SELECT * FROM t; ', 100), 'SELECT * FROM t LIMIT 100; ');
+			assert.equal(applyRowCap('SELECT * FROM t -- all rows', 100), 'SELECT * FROM t LIMIT 100 -- all rows');
+		});
+
+		it('inserts LIMIT before OFFSET', () => {
+			assert.equal(applyRowCap('SELECT * FROM t OFFSET 20', 100), 'SELECT * FROM t LIMIT 100 OFFSET 20');
+		});
+
+		it('inserts LIMIT before a Postgres locking clause', () => {
+			assert.equal(applyRowCap('SELECT * FROM t FOR UPDATE', 100), 'SELECT * FROM t LIMIT 100 FOR UPDATE');
+			assert.equal(applyRowCap('SELECT * FROM t FOR NO KEY UPDATE', 100, 'postgres'), 'SELECT * FROM t LIMIT 100 FOR NO KEY UPDATE');
+		});
+
+		it('caps the outer query when only a subquery or CTE is limited', () => {
+			assert.equal(
+				applyRowCap('SELECT * FROM (SELECT * FROM t LIMIT 5) s', 100),
+				'SELECT * FROM (SELECT * FROM t LIMIT 5) s LIMIT 100'
+			);
+			assert.equal(
+				applyRowCap('WITH top AS (SELECT * FROM t LIMIT 5) SELECT * FROM top, u', 100),
+				'WITH top AS (SELECT * FROM t LIMIT 5) SELECT * FROM top, u LIMIT 100'
+			);
+		});
+
+		it('caps set operations as a whole', () => {
+			assert.equal(applyRowCap('SELECT a FROM t UNION SELECT a FROM u', 10), 'SELECT a FROM t UNION SELECT a FROM u LIMIT 10');
+		});
+
+		it('ignores LIMIT inside strings and comments', () => {
+			assert.equal(applyRowCap("SELECT 'LIMIT 5' FROM t", 10), "SELECT 'LIMIT 5' FROM t LIMIT 10");
+			assert.equal(applyRowCap('SELECT * /* LIMIT 5 */ FROM t', 10), 'SELECT * /* LIMIT 5 */ FROM t LIMIT 10');
+		});
+	});
+
+	describe('LIMIT', () => {
+		it('keeps a limit at or below the cap', () => {
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT 10', 100), 'SELECT * FROM t LIMIT 10');
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT 100', 100), 'SELECT * FROM t LIMIT 100');
+		});
+
+		it('lowers a limit above the cap', () => {
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT 5000', 100), 'SELECT * FROM t LIMIT 100');
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT 5000 OFFSET 10', 100), 'SELECT * FROM t LIMIT 100 OFFSET 10');
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT 5000 FOR SHARE', 100), 'SELECT * FROM t LIMIT 100 FOR SHARE');
+		});
+
+		it('lowers the count of a MySQL LIMIT offset, count', () => {
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT 20, 5000', 100, 'mysql'), 'SELECT * FROM t LIMIT 20, 100');
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT 20, 50', 100, 'mysql'), 'SELECT * FROM t LIMIT 20, 50');
+		});
+
+		it('replaces LIMIT ALL and LIMIT NULL', () => {
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT ALL', 100), 'SELECT * FROM t LIMIT 100');
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT NULL', 100), 'SELECT * FROM t LIMIT 100');
+		});
+
+		it('wraps bind placeholders', () => {
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT $1', 100), wrapped('SELECT * FROM t LIMIT $1', 100));
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT ?', 100, 'mysql'), wrapped('SELECT * FROM t LIMIT ?', 100));
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT :rows', 100, 'snowflake'), wrapped('SELECT * FROM t LIMIT :rows', 100));
+		});
+
+		it('wraps expressions that start with a number', () => {
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT 10 + 1000', 100), wrapped('SELECT * FROM t LIMIT 10 + 1000', 100));
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT 10 * 1000;', 100), wrapped('SELECT * FROM t LIMIT 10 * 1000', 100));
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT ALL + 1', 100), wrapped('SELECT * FROM t LIMIT ALL + 1', 100));
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT 20, 10 + 1000', 100, 'mysql'), wrapped('SELECT * FROM t LIMIT 20, 10 + 1000', 100));
+		});
+
+		it('wraps expressions that do not start with a number', () => {
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT (SELECT 5000)', 100), wrapped('SELECT * FROM t LIMIT (SELECT 5000)', 100));
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT -1', 100), wrapped('SELECT * FROM t LIMIT -1', 100));
+		});
+
+		it('keeps the wrapped query clear of trailing line comments', () => {
+			assert.equal(applyRowCap('SELECT * FROM t LIMIT $1 -- page', 100), wrapped('SELECT * FROM t LIMIT $1', 100));
+		});
+	});
+
+	describe('FETCH FIRST', () => {
+		it('keeps a count at or below the cap', () => {
+			assert.equal(applyRowCap('SELECT * FROM t FETCH FIRST 10 ROWS ONLY', 100), 'SELECT * FROM t FETCH FIRST 10 ROWS ONLY');
+		});
+
+		it('lowers a count above the cap', () => {
+			assert.equal(applyRowCap('SELECT * FROM t FETCH NEXT 5000 ROWS ONLY', 100), 'SELECT * FROM t FETCH NEXT 100 ROWS ONLY');
+			assert.equal(
+				applyRowCap('SELECT * FROM t ORDER BY a FETCH FIRST 5000 ROWS WITH TIES', 100),
+				'SELECT * FROM t ORDER BY a FETCH FIRST 100 ROWS WITH TIES'
+			);
+		});
+
+		it('keeps FETCH FIRST ROW ONLY', () => {
+			assert.equal(applyRowCap('SELECT * FROM t FETCH FIRST ROW ONLY', 100), 'SELECT * FROM t FETCH FIRST ROW ONLY');
+		});
+
+		it('wraps placeholders and expressions', () => {
+			assert.equal(applyRowCap('SELECT * FROM t FETCH FIRST $1 ROWS ONLY', 100), wrapped('SELECT * FROM t FETCH FIRST $1 ROWS ONLY', 100));
+			assert.equal(
+				applyRowCap('SELECT * FROM t FETCH FIRST 10 + 1000 ROWS ONLY', 100),
+				wrapped('SELECT * FROM t FETCH FIRST 10 + 1000 ROWS ONLY', 100)
+			);
+		});
+	});
+
+	describe('Snowflake TOP', () => {
+		it('lowers TOP above the cap', () => {
+			assert.equal(applyRowCap('SELECT TOP 5000 * FROM t', 100, 'snowflake'), 'SELECT TOP 100 * FROM t');
+			assert.equal(applyRowCap('SELECT DISTINCT TOP 5000 a FROM t', 100, 'snowflake'), 'SELECT DISTINCT TOP 100 a FROM t');
+		});
+
+		it('keeps TOP at or below the cap', () => {
+			assert.equal(applyRowCap('SELECT TOP 10 * FROM t', 100, 'snowflake'), 'SELECT TOP 10 * FROM t');
+		});
+
+		it('adds LIMIT when TOP only limits one side of a set operation', () => {
+			assert.equal(
+				applyRowCap('SELECT TOP 10 a FROM t UNION ALL SELECT a FROM u', 100, 'snowflake'),
+				'SELECT TOP 10 a FROM t UNION ALL SELECT a FROM u LIMIT 100'
+			);
+		});
+
+		it('is not special outside Snowflake', () => {
+			assert.equal(applyRowCap('SELECT TOP 10 * FROM t', 100, 'postgres'), 'SELECT TOP 10 * FROM t LIMIT 100');
+		});
+	});
+
+	describe('statements left unchanged', () => {
+		it('leaves statements that are not queries alone', () => {
+			for (const sql of ['INSERT INTO t VALUES (1)', 'UPDATE t SET a = 1', 'SHOW TABLES', 'DELETE FROM t']) {
+				assert.equal(applyRowCap(sql, 100), sql);
+			}
+		});
+
+		it('leaves empty SQL and invalid caps alone', () => {
+			assert.equal(applyRowCap('', 100), '');
+			assert.equal(applyRowCap('  ;  ', 100), '  ;  ');
+			assert.equal(applyRowCap('SELECT * FROM t', 0), 'SELECT * FROM t');
+			assert.equal(applyRowCap('SELECT * FROM t', 1.5), 'SELECT * FROM t');
+		});
+	});
+
+	it('handles queries in parentheses and VALUES lists', () => {
+		assert.equal(applyRowCap('(SELECT * FROM t)', 100), '(SELECT * FROM t) LIMIT 100');
+		assert.equal(applyRowCap('VALUES (1), (2)', 100), 'VALUES (1), (2) LIMIT 100');
+	});
+});
+
+describe('toDryRun', () => {
+	it('wraps queries in a LIMIT 0 query', () => {
+		assert.equal(toDryRun('SELECT * FROM t LIMIT 5;'), wrapped('SELECT * FROM t LIMIT 5', 0));
+	});
+
+	it('returns null for statements that are not queries', () => {
+		assert.equal(toDryRun('DELETE FROM t'), null);
+		assert.equal(toDryRun(''), null);
+	});
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { bindParams } from '../src/sql/params';
+
+describe('bindParams', () => {
+	it('passes positional params through', () => {
+		assert.deepEqual(bindParams('SELECT * FROM t WHERE a = $1', [5], 'postgres'), { sql: 'SELECT * FROM t WHERE a = $1', values: [5] });
+		assert.deepEqual(bindParams('SELECT * FROM t WHERE a = ?', ['x'], 'snowflake'), { sql: 'SELECT * FROM t WHERE a = ?', values: ['x'] });
+	});
+
+	it('rewrites named params to the dialect placeholders', () => {
+		assert.deepEqual(
+			bindParams('SELECT * FROM t WHERE a = :a AND b = :b OR a = :a', { a: 1, b: 'x' }, 'postgres'),
+			{ sql: 'SELECT * FROM t WHERE a = $1 AND b = $2 OR a = $1', values: [1, 'x'] }
+		);
+		assert.deepEqual(
+			bindParams('SELECT * FROM t WHERE a = :a OR b = :a', { a: 1 }, 'snowflake'),
+			{ sql: 'SELECT * FROM t WHERE a = ? OR b = ?', values: [1, 1] }
+		);
+	});
+
+	it('leaves Snowflake paths and Postgres casts alone', () => {
+		assert.deepEqual(bindParams('SELECT v:name, a::int FROM t WHERE a = :a', { a: 1 }, 'snowflake').values, [1]);
+	});
+
+	it('rejects a missing named value', () => {
+		assert.throws(() => bindParams('SELECT :a', {}, 'postgres'), /Missing value for parameter :a/);
+	});
+
+	it('rejects mixed placeholder styles', () => {
+		assert.throws(() => bindParams('SELECT * FROM t WHERE a = $1 AND b = :x', { x: 1 }, 'postgres'), /cannot be mixed/);
+		assert.throws(() => bindParams('SELECT * FROM t WHERE a = ? AND b = :x', [1], 'snowflake'), /cannot be mixed/);
+	});
+
+	it('rejects named placeholders with array params', () => {
+		assert.throws(() => bindParams('SELECT * FROM t WHERE a = :a', [1], 'postgres'), /needs params as an object/);
+	});
+
+	it('rejects positional placeholders with object params', () => {
+		assert.throws(() => bindParams('SELECT * FROM t WHERE a = $1', { a: 1 }, 'postgres'), /needs params as an array/);
+	});
+
+	it('does not treat the Postgres jsonb ? operator as a placeholder', () => {
+		assert.deepEqual(
+			bindParams("SELECT * FROM t WHERE doc ? 'key' AND a = :a", { a: 1 }, 'postgres'),
+			{ sql: "SELECT * FROM t WHERE doc ? 'key' AND a = $1", values: [1] }
+		);
+	});
+
+	it('rejects values that cannot be bound', () => {
+		assert.throws(() => bindParams('SELECT $1', [{}] as any, 'postgres'), /must be a string, number, boolean or null/);
+	});
+});
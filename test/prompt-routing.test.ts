@@ -0,0 +1,163 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { COMPONENTS, dryRuns, searches } from './support/agent';
+import { get_user_response } from '../src/userResponse';
+import { refineComponent } from '../src/userResponse/pipeline';
+import { ProgressStage } from '../src/userResponse/types';
+import { LLMOutputFailurePayload, UserPromptResult } from '../src/websocket/types';
+import CONVERSATIONS from '../src/conversations';
+
+// Every LLM call below is answered from test/fixtures/llm (hand-written answers in the recording format), and
+// ChromaDB and the warehouse are stand-ins (see support/agent.ts), so nothing leaves the process.
+// A prompt text change shows up as a missing fixture: record new ones with provider keys set and
+// LLM_MOCK_MODE=record LLM_FIXTURES_DIR=test/fixtures/llm, then check the expectations still hold
+
+const ask = async (prompt: string, options: { user?: string; threadId?: string } = {}) => {
+	const stages: ProgressStage[] = [];
+	const result = await get_user_response(
+		{ id: `req-${prompt}`, payload: { prompt, threadId: options.threadId }, from: { type: 'runtime', id: 'runtime-1' } },
+		COMPONENTS,
+		stage => stages.push(stage),
+		options.user
+	);
+	if (!result.success) {
+		assert.fail(`Prompt "${prompt}" failed: ${result.reason}`);
+	}
+	return { payload: result.response.payload as UserPromptResult, stages };
+};
+
+describe('handleUserRequest routing (offline)', () => {
+	const method = process.env.COMPONENT_MATCHING_METHOD;
+
+	before(() => {
+		process.env.COMPONENT_MATCHING_METHOD = 'llm';
+	});
+	after(() => {
+		process.env.COMPONENT_MATCHING_METHOD = method;
+	});
+	beforeEach(() => {
+		dryRuns.length = 0;
+	});
+
+	it('answers general questions without a component', async () => {
+		const { payload, stages } = await ask('Hello, what can you do?');
+		assert.equal(payload.method, 'classification-general');
+		assert.equal(payload.component, null);
+		assert.deepEqual(stages, ['classifying']);
+	});
+
+	it('generates a component when no visualization was named', async () => {
+		const { payload, stages } = await ask('How many orders were placed?');
+		assert.equal(payload.method, 'classification-generated-auto');
+		assert.equal(payload.component?.type, 'KPICard');
+		assert.equal(payload.component?.props.query, 'SELECT COUNT(*) AS value FROM ORDERS LIMIT 50');
+		assert.deepEqual(payload.component?.queryCheck, { source: 'warehouse', verified: true, repairs: 0 });
+		assert.deepEqual(stages, ['classifying', 'generating_sql', 'verifying_query']);
+		assert.equal(dryRuns.length, 1);
+	});
+
+	it('does not return a generated component when its source is not registered', async () => {
+		const source = process.env.GENERATED_QUERY_SOURCE;
+		process.env.GENERATED_QUERY_SOURCE = 'missing';
+		try {
+			const { payload } = await ask('How many orders were placed?');
+			assert.equal(payload.component, null);
+			assert.match(payload.reasoning, /"missing" is not registered/);
+			assert.equal(dryRuns.length, 0);
+		} finally {
+			process.env.GENERATED_QUERY_SOURCE = source;
+		}
+	});
+
+	it('generates the requested visualization', async () => {
+		const { payload } = await ask('Show revenue by region as a bar chart');
+		assert.equal(payload.method, 'classification-generated');
+		assert.equal(payload.component?.type, 'BarChart');
+		assert.equal(payload.component?.props.title, 'Revenue by Region');
+	});
+
+	it('wraps several visualizations in a container', async () => {
+		const { payload } = await ask('Show total revenue and the monthly revenue trend');
+		assert.equal(payload.method, 'classification-multi-generated');
+		assert.equal(payload.component?.type, 'Container');
+		const inner = payload.component?.props.config.components;
+		assert.deepEqual(inner.map((component: any) => component.type), ['KPICard', 'LineChart']);
+		assert.equal(dryRuns.length, 2);
+	});
+
+	it('matches an existing component for data modification', async () => {
+		const { payload } = await ask('Add a new customer');
+		assert.equal(payload.method, 'classification-matched');
+		assert.equal(payload.component?.id, 'customer_form');
+		assert.equal(payload.propsModified, false);
+	});
+
+	it('refines the previous answer for a follow-up in the same thread', async () => {
+		const user = 'routing-user';
+		CONVERSATIONS.reset(user);
+
+		const first = await ask('Show revenue by region as a bar chart', { user, threadId: 'regions' });
+		assert.equal(first.payload.method, 'classification-generated');
+
+		const { payload, stages } = await ask('only for 1995', { user, threadId: 'regions' });
+		assert.equal(payload.method, 'conversation-refined');
+		assert.equal(payload.queryModified, true);
+		assert.match(payload.component?.props.query || '', /:year/);
+		assert.deepEqual(payload.component?.props.params, { year: 1995 });
+		assert.deepEqual(stages, ['classifying', 'matching_component', 'verifying_query']);
+		assert.equal(CONVERSATIONS.get(user, 'regions')?.turns.length, 2);
+	});
+
+	it('does not dry-run a refined runtime component on the generated query source', async () => {
+		const result = await refineComponent('only for 1995', COMPONENTS[0], []);
+		assert.equal(result.queryModified, true);
+		assert.deepEqual(result.component?.props.params, { year: 1995 });
+		assert.equal(result.component?.queryCheck, undefined);
+		assert.equal(dryRuns.length, 0);
+	});
+
+	it('reports model output that stays invalid with its step and issues', async () => {
+		const result = await get_user_response(
+			{ id: 'req-weather', payload: { prompt: 'What will the weather be tomorrow?' }, from: { type: 'runtime', id: 'runtime-1' } },
+			COMPONENTS
+		);
+		assert.equal(result.success, false);
+		const failure = !result.success ? result.failure as LLMOutputFailurePayload : undefined;
+		assert.equal(failure?.error, 'llm_output_invalid');
+		assert.equal(failure?.step, 'classify');
+		assert.deepEqual(failure?.issues.map(issue => issue.path), ['questionType']);
+	});
+});
+
+describe('ChromaDB matching (offline)', () => {
+	const method = process.env.COMPONENT_MATCHING_METHOD;
+
+	before(() => {
+		process.env.COMPONENT_MATCHING_METHOD = 'chromadb';
+	});
+	after(() => {
+		process.env.COMPONENT_MATCHING_METHOD = method;
+	});
+
+	it('re-ranks the vector search candidates and checks the query', async () => {
+		const { payload, stages } = await ask('What is our total revenue?');
+		assert.equal(payload.method, 'chromadb-vector-search');
+		assert.equal(payload.component?.id, 'revenue_kpi');
+		assert.equal(payload.queryModified, false);
+		assert.deepEqual(stages, ['searching_components']);
+	});
+
+	it('searches and adapts a follow-up together with the earlier prompts', async () => {
+		const user = 'chroma-user';
+		CONVERSATIONS.reset(user);
+		await ask('What is our total revenue?', { user });
+
+		searches.length = 0;
+		const { payload } = await ask('only for 1995', { user });
+		assert.equal(payload.component?.id, 'revenue_kpi');
+		assert.deepEqual(searches, ['What is our total revenue?\nonly for 1995']);
+		assert.equal(payload.queryModified, true);
+		assert.match(payload.component?.props.query || '', /1995/);
+		assert.equal(CONVERSATIONS.get(user)?.turns.length, 2);
+	});
+});
@@ -0,0 +1,64 @@
+import './offline';
+import CHROMACOLLECTION from '../../src/chromadb/collections';
+import DATASOURCES from '../../src/datasources/registry';
+import { DataSource } from '../../src/datasources/types';
+import { registerDefaultLLMProviders } from '../../src/llm';
+import { Component } from '../../src/userResponse/types';
+
+/** Components the runtime would send in component_list */
+export const COMPONENTS: Component[] = [
+	{
+		id: 'revenue_kpi',
+		name: 'RevenueKPI',
+		type: 'KPICard',
+		description: 'Total revenue across all orders',
+		category: 'analytics',
+		keywords: ['revenue', 'total', 'sales'],
+		props: {
+			query: 'SELECT SUM(O_TOTALPRICE) AS value FROM ORDERS LIMIT 1',
+			title: 'Total Revenue',
+			config: { formatter: 'currency' }
+		}
+	},
+	{
+		id: 'customer_form',
+		name: 'CustomerForm',
+		type: 'Form',
+		description: 'Form to create a new customer',
+		category: 'forms',
+		keywords: ['customer', 'create', 'add'],
+		props: {
+			title: 'New Customer',
+			config: { fields: ['C_NAME', 'C_ADDRESS', 'C_PHONE'] }
+		}
+	}
+];
+
+/** Statements dry-run against the stand-in warehouse, oldest first */
+export const dryRuns: string[] = [];
+
+/** Texts vector-searched in the stand-in ChromaDB collection, oldest first */
+export const searches: string[] = [];
+
+// Stands in for the warehouse generated queries are verified on: every query compiles
+const warehouse: DataSource = {
+	id: 'warehouse',
+	dialect: 'snowflake',
+	connect: async () => {},
+	introspect: async () => [],
+	disconnect: async () => {},
+	execute: async query => {
+		dryRuns.push(query);
+		return { success: true, source: 'warehouse', dialect: 'snowflake', columns: [], data: [], rowCount: 0 };
+	}
+};
+
+// ChromaDB stand-in: one collection whose vector search returns every component
+CHROMACOLLECTION.collectionExists = async () => true;
+CHROMACOLLECTION.queryComponents = async (collectionName, queryText) => {
+	searches.push(queryText);
+	return COMPONENTS;
+};
+
+registerDefaultLLMProviders();
+DATASOURCES.register(warehouse);
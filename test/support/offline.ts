@@ -0,0 +1,13 @@
+import path from 'path';
+
+// Imported before anything from src: modules read these when they load
+
+// postgres-js connects lazily, so nothing is ever dialed at this address
+process.env.DATABASE_URL = 'postgres://test@127.0.0.1:1/test';
+process.env.LLM_MOCK_MODE = 'replay';
+process.env.LLM_FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'llm');
+process.env.GENERATED_QUERY_SOURCE = 'warehouse';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+for (const name of ['GROQ_API_KEY', 'ANTHROPIC_API_KEY', 'LLM_OPENAI_BASE_URL', 'LLM_CHAIN', 'OTEL_EXPORTER_OTLP_ENDPOINT']) {
+	delete process.env[name];
+}